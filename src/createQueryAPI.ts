@@ -64,7 +64,7 @@ export function createQueryAPI<TConfig extends APIConfig>(
   queryClient?: QueryClient
 ): GeneratedAPI<TConfig> {
   // Validate configuration
-  validateConfig(config);
+  validateConfig(config, fetchConfig);
 
   // Create or use provided QueryClient
   const client = queryClient || new QueryClient();
@@ -73,13 +73,18 @@ export function createQueryAPI<TConfig extends APIConfig>(
   const fetcher = createFetcher(fetchConfig);
 
   // Create query key factory
-  const keyFactory = createKeyFactory(config);
+  const keyFactory = createKeyFactory(config, fetchConfig);
 
   // Generate hooks for all endpoints
-  const hooks = createHooks(config, fetcher, keyFactory, client);
+  const hooks = createHooks(config, fetcher, keyFactory, client, fetchConfig);
 
   // Create invalidation utilities
-  const invalidation = createInvalidation(config, client, keyFactory);
+  const invalidation = createInvalidation(
+    config,
+    client,
+    keyFactory,
+    fetchConfig
+  );
 
   // Combine into final API object with nested structure
   const api: any = {};
@@ -118,9 +123,10 @@ export function createQueryAPI<TConfig extends APIConfig>(
  * Validates the API configuration
  *
  * @param config - API configuration to validate
+ * @param fetchConfig - Fetch configuration declaring the services
  * @throws Error if configuration is invalid
  */
-function validateConfig(config: APIConfig): void {
+function validateConfig(config: APIConfig, fetchConfig?: FetchConfig): void {
   if (!config || typeof config !== "object") {
     throw new Error(
       "Invalid API configuration: config must be a non-null object"
@@ -145,7 +151,7 @@ function validateConfig(config: APIConfig): void {
     // Check if this is a direct endpoint or a nested group
     if (isEndpointConfig(groupConfig)) {
       // Validate direct endpoint
-      validateEndpoint(groupConfig, group);
+      validateEndpoint(groupConfig, group, fetchConfig);
     } else {
       // Validate nested group
       if (Object.keys(groupConfig).length === 0) {
@@ -163,7 +169,7 @@ function validateConfig(config: APIConfig): void {
           );
         }
 
-        validateEndpoint(endpointConfig, `${group}.${endpoint}`);
+        validateEndpoint(endpointConfig, `${group}.${endpoint}`, fetchConfig);
       }
     }
   }
@@ -174,9 +180,14 @@ function validateConfig(config: APIConfig): void {
  *
  * @param endpoint - Endpoint configuration to validate
  * @param path - Path to the endpoint for error messages
+ * @param fetchConfig - Fetch configuration declaring the services
  * @throws Error if endpoint is invalid
  */
-function validateEndpoint(endpoint: any, path: string): void {
+function validateEndpoint(
+  endpoint: any,
+  path: string,
+  fetchConfig?: FetchConfig
+): void {
   // Check for required 'method' field
   if (!("method" in endpoint)) {
     throw new Error(
@@ -225,6 +236,64 @@ function validateEndpoint(endpoint: any, path: string): void {
     );
   }
 
+  // Validate service if provided
+  if ("service" in endpoint && endpoint.service !== undefined) {
+    if (typeof endpoint.service !== "string") {
+      throw new Error(
+        `Invalid endpoint configuration at "${path}": "service" must be a string`
+      );
+    }
+
+    const services = Object.keys(fetchConfig?.services ?? {});
+    if (!services.includes(endpoint.service)) {
+      throw new Error(
+        `Invalid endpoint configuration at "${path}": unknown service "${endpoint.service}"` +
+          (services.length > 0
+            ? ` (declared services: ${services.join(", ")})`
+            : ". Declare it in the services of the fetch configuration")
+      );
+    }
+  }
+
+  // Validate baseURL if provided
+  if ("baseURL" in endpoint && endpoint.baseURL !== undefined) {
+    if (typeof endpoint.baseURL !== "string") {
+      throw new Error(
+        `Invalid endpoint configuration at "${path}": "baseURL" must be a string`
+      );
+    }
+  }
+
+  // Validate headers if provided
+  if ("headers" in endpoint && endpoint.headers !== undefined) {
+    const { headers } = endpoint;
+    if (
+      typeof headers !== "function" &&
+      (typeof headers !== "object" ||
+        headers === null ||
+        Object.values(headers).some(
+          (value) => value !== undefined && typeof value !== "string"
+        ))
+    ) {
+      throw new Error(
+        `Invalid endpoint configuration at "${path}": "headers" must be a record of strings or a function returning one`
+      );
+    }
+  }
+
+  // Validate paramsSchema if provided
+  if ("paramsSchema" in endpoint && endpoint.paramsSchema !== undefined) {
+    if (
+      typeof endpoint.paramsSchema !== "object" ||
+      endpoint.paramsSchema === null ||
+      typeof endpoint.paramsSchema.parse !== "function"
+    ) {
+      throw new Error(
+        `Invalid endpoint configuration at "${path}": "paramsSchema" must be a Zod schema object`
+      );
+    }
+  }
+
   // Validate schema if provided
   if ("schema" in endpoint && endpoint.schema !== undefined) {
     if (
@@ -238,6 +307,34 @@ function validateEndpoint(endpoint: any, path: string): void {
     }
   }
 
+  // Validate responses if provided
+  if ("responses" in endpoint && endpoint.responses !== undefined) {
+    if (typeof endpoint.responses !== "object" || endpoint.responses === null) {
+      throw new Error(
+        `Invalid endpoint configuration at "${path}": "responses" must be an object mapping status codes to Zod schemas or null`
+      );
+    }
+
+    for (const status in endpoint.responses) {
+      if (!/^2\d\d$/.test(status)) {
+        throw new Error(
+          `Invalid endpoint configuration at "${path}": "responses" keys must be 2xx HTTP status codes (got "${status}")`
+        );
+      }
+
+      const responseSchema = endpoint.responses[status];
+      if (
+        responseSchema !== null &&
+        (typeof responseSchema !== "object" ||
+          typeof responseSchema.parse !== "function")
+      ) {
+        throw new Error(
+          `Invalid endpoint configuration at "${path}": "responses.${status}" must be a Zod schema object or null`
+        );
+      }
+    }
+  }
+
   // Validate bodySchema if provided
   if ("bodySchema" in endpoint && endpoint.bodySchema !== undefined) {
     // Check that bodySchema is a valid Zod schema
@@ -277,6 +374,148 @@ function validateEndpoint(endpoint: any, path: string): void {
       );
     }
   }
+
+  // Validate querySerializer if provided
+  if ("querySerializer" in endpoint && endpoint.querySerializer !== undefined) {
+    const arrayFormats = ["repeat", "brackets", "comma", "indices"];
+    const arrayFormat =
+      typeof endpoint.querySerializer === "string"
+        ? endpoint.querySerializer
+        : endpoint.querySerializer?.arrayFormat;
+
+    if (
+      (typeof endpoint.querySerializer !== "string" &&
+        (typeof endpoint.querySerializer !== "object" ||
+          endpoint.querySerializer === null)) ||
+      (arrayFormat !== undefined && !arrayFormats.includes(arrayFormat))
+    ) {
+      throw new Error(
+        `Invalid endpoint configuration at "${path}": "querySerializer" must be one of ${arrayFormats.join(
+          ", "
+        )} or a serializer options object`
+      );
+    }
+  }
+
+  // Validate transform if provided
+  if ("transform" in endpoint && endpoint.transform !== undefined) {
+    if (typeof endpoint.transform !== "function") {
+      throw new Error(
+        `Invalid endpoint configuration at "${path}": "transform" must be a function`
+      );
+    }
+  }
+
+  // Validate unwrap if provided
+  if ("unwrap" in endpoint && endpoint.unwrap !== undefined) {
+    if (typeof endpoint.unwrap !== "boolean") {
+      throw new Error(
+        `Invalid endpoint configuration at "${path}": "unwrap" must be a boolean`
+      );
+    }
+  }
+
+  // Validate caseConversion if provided
+  if ("caseConversion" in endpoint && endpoint.caseConversion !== undefined) {
+    const { caseConversion } = endpoint;
+    if (
+      typeof caseConversion !== "boolean" &&
+      (typeof caseConversion !== "object" ||
+        caseConversion === null ||
+        (caseConversion.exclude !== undefined &&
+          (!Array.isArray(caseConversion.exclude) ||
+            !caseConversion.exclude.every(
+              (key: unknown) => typeof key === "string"
+            ))))
+    ) {
+      throw new Error(
+        `Invalid endpoint configuration at "${path}": "caseConversion" must be a boolean or an object with an "exclude" array of keys`
+      );
+    }
+  }
+
+  // Validate idempotency if provided
+  if ("idempotency" in endpoint && endpoint.idempotency !== undefined) {
+    const { idempotency } = endpoint;
+    if (
+      typeof idempotency !== "boolean" &&
+      (typeof idempotency !== "object" ||
+        idempotency === null ||
+        (idempotency.header !== undefined &&
+          typeof idempotency.header !== "string") ||
+        (idempotency.generateKey !== undefined &&
+          typeof idempotency.generateKey !== "function") ||
+        (idempotency.methods !== undefined &&
+          !Array.isArray(idempotency.methods)))
+    ) {
+      throw new Error(
+        `Invalid endpoint configuration at "${path}": "idempotency" must be a boolean or an object with "header", "methods" and "generateKey" options`
+      );
+    }
+  }
+
+  // Validate priority if provided
+  if ("priority" in endpoint && endpoint.priority !== undefined) {
+    const priorities = ["high", "normal", "low"];
+    if (!priorities.includes(endpoint.priority)) {
+      throw new Error(
+        `Invalid endpoint configuration at "${path}": "priority" must be one of ${priorities.join(
+          ", "
+        )} (got "${endpoint.priority}")`
+      );
+    }
+  }
+
+  // Validate freshness if provided
+  if ("freshness" in endpoint && endpoint.freshness !== undefined) {
+    const { freshness } = endpoint;
+    if (
+      typeof freshness !== "boolean" &&
+      (typeof freshness !== "object" ||
+        freshness === null ||
+        (freshness.field !== undefined &&
+          typeof freshness.field !== "string" &&
+          typeof freshness.field !== "function"))
+    ) {
+      throw new Error(
+        `Invalid endpoint configuration at "${path}": "freshness" must be a boolean or an object with "headers" and "field" options`
+      );
+    }
+
+    if (endpoint.method !== "GET") {
+      throw new Error(
+        `Invalid endpoint configuration at "${path}": "freshness" is only allowed for GET endpoints (got "${endpoint.method}")`
+      );
+    }
+  }
+
+  // Validate errors if provided
+  if ("errors" in endpoint && endpoint.errors !== undefined) {
+    if (typeof endpoint.errors !== "object" || endpoint.errors === null) {
+      throw new Error(
+        `Invalid endpoint configuration at "${path}": "errors" must be an object mapping status codes to Zod schemas`
+      );
+    }
+
+    for (const status in endpoint.errors) {
+      if (status !== "default" && !/^[1-5]\d\d$/.test(status)) {
+        throw new Error(
+          `Invalid endpoint configuration at "${path}": "errors" keys must be HTTP status codes or "default" (got "${status}")`
+        );
+      }
+
+      const errorSchema = endpoint.errors[status];
+      if (
+        typeof errorSchema !== "object" ||
+        errorSchema === null ||
+        typeof errorSchema.parse !== "function"
+      ) {
+        throw new Error(
+          `Invalid endpoint configuration at "${path}": "errors.${status}" must be a Zod schema object`
+        );
+      }
+    }
+  }
 }
 
 /**
@@ -0,0 +1,289 @@
+import type { z } from "zod";
+import type { EndpointMeta } from "./types";
+
+/**
+ * Request details attached to every error raised by the fetcher
+ */
+export type RequestErrorContext = {
+  /** Fully resolved request URL */
+  url?: string;
+  /** HTTP method of the request */
+  method?: string;
+  /** Endpoint the request was generated for */
+  endpoint?: EndpointMeta;
+  /** Underlying error that caused this one */
+  cause?: unknown;
+};
+
+/**
+ * Base class for all errors raised by the fetcher
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await fetcher('/users', { method: 'GET' });
+ * } catch (error) {
+ *   if (error instanceof RequestError) {
+ *     console.log(error.method, error.url, error.endpoint?.name);
+ *   }
+ * }
+ * ```
+ */
+export class RequestError extends Error {
+  readonly url?: string;
+  readonly method?: string;
+  readonly endpoint?: EndpointMeta;
+  readonly cause?: unknown;
+
+  constructor(message: string, context: RequestErrorContext = {}) {
+    super(message);
+    this.name = "RequestError";
+    this.url = context.url;
+    this.method = context.method;
+    this.endpoint = context.endpoint;
+    this.cause = context.cause;
+  }
+}
+
+/**
+ * Error raised when the server responds with a non-2xx status
+ *
+ * @template TStatus - HTTP status code
+ * @template TData - Type of the parsed error body
+ */
+export class HttpError<
+  TStatus extends number = number,
+  TData = unknown
+> extends RequestError {
+  readonly status: TStatus;
+  readonly statusText: string;
+  readonly data: TData;
+
+  constructor(
+    response: { status: TStatus; statusText: string; data: TData },
+    context: RequestErrorContext = {}
+  ) {
+    super(`HTTP ${response.status}: ${response.statusText}`, context);
+    this.name = "HttpError";
+    this.status = response.status;
+    this.statusText = response.statusText;
+    this.data = response.data;
+  }
+}
+
+/**
+ * Error raised when the request could not reach the server
+ *
+ * Keeps `status: 0` and `statusText: "Network Error"` so it can be handled
+ * like an HTTP error without a response.
+ */
+export class NetworkError extends RequestError {
+  readonly status = 0;
+  readonly statusText = "Network Error";
+  readonly data: undefined = undefined;
+
+  constructor(context: RequestErrorContext = {}) {
+    super(
+      context.cause instanceof Error
+        ? context.cause.message
+        : "An unknown error occurred",
+      context
+    );
+    this.name = "NetworkError";
+  }
+}
+
+/**
+ * Error raised when a request exceeds its configured timeout
+ */
+export class TimeoutError extends RequestError {
+  readonly type = "timeout";
+  readonly timeout: number;
+
+  constructor(timeout: number, context: RequestErrorContext = {}) {
+    super(`Request timed out after ${timeout}ms`, context);
+    this.name = "TimeoutError";
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * Error raised when the caller cancels the request through its AbortSignal
+ */
+export class AbortError extends RequestError {
+  constructor(context: RequestErrorContext = {}) {
+    super("Request was aborted", context);
+    this.name = "AbortError";
+  }
+}
+
+/**
+ * Error raised without sending the request while its circuit is open
+ *
+ * @example
+ * ```typescript
+ * if (error instanceof CircuitOpenError) {
+ *   showBanner(`${error.circuit} is unavailable, retrying in ${error.retryAfter}ms`);
+ * }
+ * ```
+ */
+export class CircuitOpenError extends RequestError {
+  readonly type = "circuit_open";
+  readonly circuit: string;
+  readonly retryAfter: number;
+
+  constructor(
+    circuit: string,
+    retryAfter: number,
+    context: RequestErrorContext = {}
+  ) {
+    super(`Circuit "${circuit}" is open`, context);
+    this.name = "CircuitOpenError";
+    this.circuit = circuit;
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Part of the request or response that failed schema validation
+ */
+export type ValidationTarget =
+  | "params"
+  | "query"
+  | "body"
+  | "response"
+  | "error";
+
+/**
+ * Error raised when data does not match its Zod schema
+ *
+ * The message lists every Zod issue with its path, e.g.
+ * `Response validation failed for GET /users/1: id: Expected number, received string`.
+ */
+export class SchemaValidationError extends RequestError {
+  readonly type = "validation";
+  readonly target: ValidationTarget;
+  readonly errors: z.ZodError;
+
+  constructor(
+    target: ValidationTarget,
+    errors: z.ZodError,
+    context: RequestErrorContext = {}
+  ) {
+    super(formatValidationMessage(target, errors, context), {
+      ...context,
+      cause: context.cause ?? errors,
+    });
+    this.name = "SchemaValidationError";
+    this.target = target;
+    this.errors = errors;
+  }
+}
+
+/**
+ * Union of all errors the fetcher rejects with
+ */
+export type FetchError =
+  | HttpError
+  | NetworkError
+  | TimeoutError
+  | AbortError
+  | CircuitOpenError
+  | SchemaValidationError;
+
+/**
+ * Type guard to check if an error is an HTTP or network error
+ *
+ * @param error - Error to check
+ * @returns True if error is an HttpError or a NetworkError
+ */
+export function isAPIError(error: unknown): error is HttpError | NetworkError {
+  return error instanceof HttpError || error instanceof NetworkError;
+}
+
+/**
+ * Type guard to check if an error is an HttpError, optionally with a given status
+ *
+ * Narrows typed endpoint errors (see InferError) to the member declared for
+ * the status, including its parsed body type.
+ *
+ * @param error - Error to check
+ * @param status - Optional status code the error must have
+ * @returns True if error is an HttpError with the given status
+ *
+ * @example
+ * ```typescript
+ * if (isHttpError(error, 422)) {
+ *   showFieldErrors(error.data.fields);
+ * }
+ * ```
+ */
+export function isHttpError<TError, TStatus extends number = number>(
+  error: TError,
+  status?: TStatus
+): error is unknown extends TError
+  ? HttpError<TStatus> & TError
+  : Extract<TError, NarrowHttpError<TError, TStatus>> {
+  return (
+    error instanceof HttpError &&
+    (status === undefined || error.status === status)
+  );
+}
+
+/**
+ * Members of an error union whose status includes the given one, such as the
+ * member declared for it or the one for undeclared statuses
+ */
+type NarrowHttpError<TError, TStatus extends number> = Exclude<
+  TError extends HttpError
+    ? number extends TStatus
+      ? TError
+      : TStatus extends TError["status"]
+      ? TError
+      : never
+    : never,
+  NetworkError
+>;
+
+/**
+ * Type guard to check if an error is a schema validation error
+ *
+ * @param error - Error to check
+ * @returns True if error is a SchemaValidationError
+ */
+export function isValidationError(
+  error: unknown
+): error is SchemaValidationError {
+  return error instanceof SchemaValidationError;
+}
+
+/**
+ * Build a readable message from the Zod issues of a validation error
+ */
+function formatValidationMessage(
+  target: ValidationTarget,
+  errors: z.ZodError,
+  context: RequestErrorContext
+): string {
+  const subject =
+    target === "params"
+      ? "Path parameters"
+      : target === "query"
+      ? "Query parameters"
+      : target === "body"
+      ? "Request body"
+      : target === "error"
+      ? "Error response"
+      : "Response";
+  const request =
+    context.method && context.url ? ` for ${context.method} ${context.url}` : "";
+  const issues = errors.issues
+    .map((issue) =>
+      issue.path.length > 0
+        ? `${issue.path.join(".")}: ${issue.message}`
+        : issue.message
+    )
+    .join("; ");
+
+  return `${subject} validation failed${request}: ${issues}`;
+}
@@ -0,0 +1,139 @@
+import type { AuthConfig, TransportResponse } from "../types";
+import { discardBody } from "./retry";
+
+/**
+ * Token state shared by all requests of a fetcher
+ */
+export type AuthManager = {
+  /**
+   * Add the current token to the headers, waiting for a pending refresh first
+   *
+   * @returns Headers with the token and the token generation they carry
+   */
+  authorize(
+    headers: Record<string, string>
+  ): Promise<{ headers: Record<string, string>; generation: number }>;
+  /**
+   * Refresh the token after a request of the given generation got a 401
+   *
+   * Concurrent callers share a single refresh. Callers whose token has been
+   * refreshed in the meantime resolve immediately without refreshing again,
+   * and callers whose token failed to refresh resolve with false.
+   *
+   * @returns True if the request should be replayed with the new token
+   */
+  refresh(generation: number): Promise<boolean>;
+};
+
+/**
+ * Creates the token state for the auth subsystem of a fetcher
+ *
+ * @param config - Auth configuration with token accessors and failure callback
+ * @returns Auth manager shared by all requests
+ */
+export function createAuthManager(config: AuthConfig): AuthManager {
+  const {
+    getToken,
+    refreshToken,
+    onAuthFailure,
+    header = "Authorization",
+    scheme = "Bearer",
+  } = config;
+
+  // Incremented after each refresh, successful or not
+  let generation = 0;
+  // Generation whose refresh failed last, so that its late 401s do not
+  // refresh or report the failure again
+  let failedGeneration: number | undefined;
+  let pendingRefresh: Promise<boolean> | null = null;
+
+  return {
+    async authorize(headers) {
+      const refreshed = pendingRefresh ? await pendingRefresh : true;
+
+      // Requests held by a failed refresh keep its generation, so that their
+      // 401s do not refresh again
+      const currentGeneration = refreshed
+        ? generation
+        : failedGeneration ?? generation;
+      const token = await getToken();
+
+      if (!token) {
+        return { headers, generation: currentGeneration };
+      }
+
+      return {
+        headers: {
+          ...headers,
+          [header]: scheme ? `${scheme} ${token}` : token,
+        },
+        generation: currentGeneration,
+      };
+    },
+
+    refresh(requestGeneration) {
+      if (requestGeneration === failedGeneration) {
+        return Promise.resolve(false);
+      }
+
+      if (requestGeneration !== generation) {
+        return pendingRefresh ?? Promise.resolve(true);
+      }
+
+      if (!pendingRefresh) {
+        pendingRefresh = Promise.resolve()
+          .then(() => refreshToken())
+          .then(
+            () => {
+              generation++;
+              return true;
+            },
+            (error) => {
+              // Requests authorized from now on may refresh again, e.g.
+              // after the user signed in anew
+              failedGeneration = generation;
+              generation++;
+              onAuthFailure?.(error);
+              return false;
+            }
+          )
+          .finally(() => {
+            pendingRefresh = null;
+          });
+      }
+
+      return pendingRefresh;
+    },
+  };
+}
+
+/**
+ * Send a request with the auth token and replay it once after a 401
+ *
+ * @param send - Function sending the request with the given headers
+ * @param auth - Auth manager, or undefined when auth is not configured
+ * @param headers - Request headers without the token
+ * @returns Response of the original request or of the replay
+ */
+export async function withAuth(
+  send: (headers: Record<string, string>) => Promise<TransportResponse>,
+  auth: AuthManager | undefined,
+  headers: Record<string, string>
+): Promise<TransportResponse> {
+  if (!auth) {
+    return send(headers);
+  }
+
+  const first = await auth.authorize(headers);
+  const response = await send(first.headers);
+
+  if (response.status !== 401 || !(await auth.refresh(first.generation))) {
+    return response;
+  }
+
+  // The 401 is thrown away, releasing its connection before the replay
+  discardBody(response);
+
+  const replay = await auth.authorize(headers);
+  return send(replay.headers);
+}
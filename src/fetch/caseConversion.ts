@@ -0,0 +1,127 @@
+import type { CaseConversionConfig, CaseConversionOption } from "../types";
+
+/**
+ * Key casing targeted by a conversion
+ */
+export type KeyCase = "camel" | "snake";
+
+/**
+ * Resolve the effective case conversion from the global and endpoint options
+ *
+ * `false` on the endpoint disables the conversion, `true` enables it with the
+ * global settings. Exclusion lists of both levels are combined.
+ *
+ * @param globalOption - Case conversion option from FetchConfig
+ * @param endpointOption - Case conversion option from the endpoint or request
+ * @returns Resolved configuration, or undefined when keys are not converted
+ *
+ * @example
+ * resolveCaseConversion({ exclude: ["metadata"] }, { exclude: ["payload"] })
+ * // { exclude: ["metadata", "payload"] }
+ * resolveCaseConversion(true, false) // undefined
+ */
+export function resolveCaseConversion(
+  globalOption?: CaseConversionOption,
+  endpointOption?: CaseConversionOption
+): CaseConversionConfig | undefined {
+  const option = endpointOption ?? globalOption;
+  if (!option) {
+    return undefined;
+  }
+
+  const exclude = [
+    ...(typeof globalOption === "object" ? globalOption.exclude ?? [] : []),
+    ...(typeof endpointOption === "object" ? endpointOption.exclude ?? [] : []),
+  ];
+
+  return exclude.length > 0 ? { exclude } : {};
+}
+
+/**
+ * Convert the keys of plain objects, recursively
+ *
+ * Arrays are traversed, other values (dates, maps, class instances...) are
+ * kept as they are. Keys listed in `exclude`, in either casing, are renamed
+ * but their values are left untouched.
+ *
+ * @param value - Value whose keys are converted
+ * @param keyCase - Target casing
+ * @param exclude - Keys whose values are opaque
+ * @returns Converted copy of the value
+ *
+ * @example
+ * convertKeys({ userId: 1, tags: [{ tagName: "a" }] }, "snake")
+ * // { user_id: 1, tags: [{ tag_name: "a" }] }
+ * convertKeys({ user_meta: { theme_id: 1 } }, "camel", ["user_meta"])
+ * // { userMeta: { theme_id: 1 } }
+ */
+export function convertKeys(
+  value: unknown,
+  keyCase: KeyCase,
+  exclude: string[] = []
+): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => convertKeys(item, keyCase, exclude));
+  }
+
+  if (!isPlainObject(value)) {
+    return value;
+  }
+
+  const convert = keyCase === "camel" ? toCamelCase : toSnakeCase;
+  const converted: Record<string, unknown> = {};
+
+  for (const [key, item] of Object.entries(value)) {
+    const convertedKey = convert(key);
+    converted[convertedKey] =
+      exclude.includes(key) || exclude.includes(convertedKey)
+        ? item
+        : convertKeys(item, keyCase, exclude);
+  }
+
+  return converted;
+}
+
+/**
+ * Convert a camelCase key to snake_case
+ *
+ * Every uppercase letter after the first character starts a new word, so
+ * acronyms are split letter by letter (`userID` becomes `user_i_d`).
+ *
+ * @example
+ * toSnakeCase("createdAt") // "created_at"
+ * toSnakeCase("line2Text") // "line2_text"
+ */
+export function toSnakeCase(key: string): string {
+  return (
+    key.charAt(0).toLowerCase() +
+    key.slice(1).replace(/[A-Z]/g, (letter) => `_${letter.toLowerCase()}`)
+  );
+}
+
+/**
+ * Convert a snake_case key to camelCase
+ *
+ * Leading and trailing underscores are kept.
+ *
+ * @example
+ * toCamelCase("created_at") // "createdAt"
+ * toCamelCase("_links") // "_links"
+ */
+export function toCamelCase(key: string): string {
+  return key.replace(/(?<=[^_])_+([^_])/g, (_match, letter: string) =>
+    letter.toUpperCase()
+  );
+}
+
+/**
+ * Check whether a value is a plain object literal (or has a null prototype)
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
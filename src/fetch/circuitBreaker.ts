@@ -0,0 +1,247 @@
+import type {
+  CircuitBreaker,
+  CircuitBreakerConfig,
+  CircuitListener,
+  CircuitRequest,
+  CircuitState,
+  TransportResponse,
+} from "../types";
+import { CircuitOpenError } from "../errors";
+
+/**
+ * Health of the requests sharing a circuit
+ */
+type Circuit = {
+  state: CircuitState;
+  /** Recent outcomes, `true` for failures, oldest first */
+  outcomes: boolean[];
+  openedAt: number;
+  /** Trial requests in flight while half-open */
+  trials: number;
+  /** Successful trial requests since the circuit became half-open */
+  successes: number;
+};
+
+/**
+ * Create a circuit breaker failing fast while a service or endpoint group is down
+ *
+ * Each circuit tracks the outcome of its most recent requests. Once the
+ * failure rate reaches the threshold the circuit opens, and requests are
+ * rejected with a CircuitOpenError without being sent. After the cool-down the
+ * next request moves the circuit to half-open and is sent as a trial: a
+ * successful trial closes the circuit, a failed one opens it again.
+ *
+ * Requests without a key (no service or endpoint) bypass the breaker, and
+ * requests cancelled by the caller are not counted.
+ *
+ * @param config - Thresholds, cool-down and grouping of requests
+ * @returns Circuit breaker to pass to FetchConfig.circuitBreaker
+ *
+ * @example
+ * ```typescript
+ * const circuitBreaker = createCircuitBreaker({ failureThreshold: 0.5, cooldown: 10_000 });
+ * const api = createQueryAPI(config, { baseURL, services, circuitBreaker });
+ *
+ * // Degraded banner
+ * circuitBreaker.subscribe((service, state) => setDegraded(service, state !== "closed"));
+ * ```
+ */
+export function createCircuitBreaker(
+  config: CircuitBreakerConfig = {}
+): CircuitBreaker {
+  const {
+    keyBy = "service",
+    failureThreshold = 0.5,
+    minimumRequests = 5,
+    windowSize = 20,
+    cooldown = 30000,
+    halfOpenRequests = 1,
+    isFailure = isDefaultFailure,
+  } = config;
+
+  if (!(failureThreshold > 0 && failureThreshold <= 1)) {
+    throw new Error(
+      `Invalid circuit breaker configuration: "failureThreshold" must be between 0 and 1 (got ${failureThreshold})`
+    );
+  }
+  for (const [name, value] of Object.entries({
+    minimumRequests,
+    windowSize,
+    halfOpenRequests,
+  })) {
+    if (!Number.isInteger(value) || value < 1) {
+      throw new Error(
+        `Invalid circuit breaker configuration: "${name}" must be a positive integer (got ${value})`
+      );
+    }
+  }
+  if (!(cooldown >= 0)) {
+    throw new Error(
+      `Invalid circuit breaker configuration: "cooldown" must be a non-negative number (got ${cooldown})`
+    );
+  }
+
+  const circuits = new Map<string, Circuit>();
+  const listeners = new Set<CircuitListener>();
+  // Replaced on every transition so that it can serve as an external store snapshot
+  let openCircuits: Record<string, CircuitState> = {};
+
+  const getKey = (request: CircuitRequest): string | undefined => {
+    if (typeof keyBy === "function") {
+      return keyBy(request);
+    }
+
+    return keyBy === "group"
+      ? request.endpoint?.group
+      : request.service ?? request.endpoint?.group;
+  };
+
+  const transition = (key: string, circuit: Circuit, state: CircuitState) => {
+    circuit.state = state;
+    circuit.successes = 0;
+    if (state === "open") {
+      circuit.openedAt = Date.now();
+    }
+    if (state === "closed") {
+      circuit.outcomes = [];
+    }
+
+    const { [key]: _previous, ...others } = openCircuits;
+    openCircuits = state === "closed" ? others : { ...others, [key]: state };
+    listeners.forEach((listener) => listener(key, state));
+  };
+
+  const record = (
+    key: string,
+    circuit: Circuit,
+    trial: boolean,
+    failed: boolean
+  ) => {
+    // Outcomes of requests started before a reset or a transition are ignored
+    if (circuits.get(key) !== circuit) {
+      return;
+    }
+
+    if (trial) {
+      if (circuit.state !== "half-open") {
+        return;
+      }
+      if (failed) {
+        transition(key, circuit, "open");
+      } else if (++circuit.successes >= halfOpenRequests) {
+        transition(key, circuit, "closed");
+      }
+      return;
+    }
+
+    if (circuit.state !== "closed") {
+      return;
+    }
+
+    circuit.outcomes.push(failed);
+    if (circuit.outcomes.length > windowSize) {
+      circuit.outcomes.shift();
+    }
+
+    const failures = circuit.outcomes.filter(Boolean).length;
+    if (
+      circuit.outcomes.length >= minimumRequests &&
+      failures / circuit.outcomes.length >= failureThreshold
+    ) {
+      transition(key, circuit, "open");
+    }
+  };
+
+  return {
+    async execute(request, task, signal) {
+      const key = getKey(request);
+      if (key === undefined) {
+        return task();
+      }
+
+      let circuit = circuits.get(key);
+      if (!circuit) {
+        circuit = {
+          state: "closed",
+          outcomes: [],
+          openedAt: 0,
+          trials: 0,
+          successes: 0,
+        };
+        circuits.set(key, circuit);
+      }
+
+      const errorContext = {
+        url: request.url,
+        method: request.method,
+        endpoint: request.endpoint,
+      };
+
+      if (circuit.state === "open") {
+        const remaining = circuit.openedAt + cooldown - Date.now();
+        if (remaining > 0) {
+          throw new CircuitOpenError(key, remaining, errorContext);
+        }
+        transition(key, circuit, "half-open");
+      }
+
+      // Half-open circuits only let a limited number of trials through
+      const trial = circuit.state === "half-open";
+      if (trial) {
+        if (circuit.trials >= halfOpenRequests) {
+          throw new CircuitOpenError(key, 0, errorContext);
+        }
+        circuit.trials++;
+      }
+
+      let response: TransportResponse;
+      try {
+        response = await task();
+      } catch (error) {
+        if (!signal?.aborted) {
+          record(key, circuit, trial, isFailure({ error }));
+        }
+        throw error;
+      } finally {
+        if (trial) {
+          circuit.trials--;
+        }
+      }
+
+      record(key, circuit, trial, isFailure({ response }));
+      return response;
+    },
+
+    getState: (key) => circuits.get(key)?.state ?? "closed",
+
+    getOpenCircuits: () => openCircuits,
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    reset(key) {
+      const keys = key !== undefined ? [key] : [...circuits.keys()];
+      for (const resetKey of keys) {
+        const circuit = circuits.get(resetKey);
+        circuits.delete(resetKey);
+        if (circuit && circuit.state !== "closed") {
+          transition(resetKey, circuit, "closed");
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Count network errors, timeouts and 5xx responses as failures
+ */
+function isDefaultFailure(outcome: {
+  response?: TransportResponse;
+  error?: unknown;
+}): boolean {
+  return outcome.response ? outcome.response.status >= 500 : true;
+}
@@ -0,0 +1,337 @@
+import type { Codec } from "../types";
+
+/**
+ * Plain JSON codec, equivalent to the fetcher's default behavior
+ */
+export const jsonCodec: Codec = {
+  serialize: (value) => JSON.stringify(value),
+  deserialize: (text) => JSON.parse(text),
+};
+
+/**
+ * Matches ISO-8601 date-time strings such as `2024-01-02T03:04:05.000Z`
+ */
+const ISO_DATE_PATTERN =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})$/;
+
+/**
+ * JSON codec reviving ISO-8601 date-time strings into Date objects
+ *
+ * Dates in request bodies are sent as ISO strings, as with plain JSON.
+ *
+ * @example
+ * ```typescript
+ * const fetcher = createFetcher({ codec: isoDateCodec });
+ * const event = await fetcher('/events/1', { method: 'GET' });
+ * event.startsAt instanceof Date; // true
+ * ```
+ */
+export const isoDateCodec: Codec = {
+  serialize: (value) => JSON.stringify(value),
+  deserialize: (text) =>
+    JSON.parse(text, (_key, value) =>
+      typeof value === "string" && ISO_DATE_PATTERN.test(value)
+        ? new Date(value)
+        : value
+    ),
+};
+
+/**
+ * Matches decimal integer strings such as `"-42"`
+ */
+const BIGINT_PATTERN = /^-?\d+$/;
+
+/**
+ * Options of a BigInt codec
+ */
+export type BigIntCodecOptions = {
+  /** Properties whose decimal string values are revived into BigInt values */
+  keys?: string[];
+};
+
+/**
+ * Create a JSON codec exchanging BigInt values as decimal strings
+ *
+ * Plain JSON.stringify throws on BigInt values. This codec writes them as
+ * decimal strings, the way APIs send 64-bit integers. Responses are only
+ * revived for the properties listed in `keys`; otherwise revive them with the
+ * response schema, e.g. `z.coerce.bigint()`.
+ *
+ * @param options - Properties to revive
+ * @returns Codec for the `codec` option of FetchConfig
+ *
+ * @example
+ * ```typescript
+ * const fetcher = createFetcher({
+ *   codec: createBigIntCodec({ keys: ['amount'] }),
+ * });
+ * await fetcher('/transfers', { method: 'POST', body: { amount: 10n ** 20n } });
+ * // body: {"amount":"100000000000000000000"}
+ * ```
+ */
+export function createBigIntCodec(options: BigIntCodecOptions = {}): Codec {
+  const keys = new Set(options.keys);
+
+  return {
+    serialize: (value) =>
+      JSON.stringify(value, (_key, item) =>
+        typeof item === "bigint" ? item.toString() : item
+      ),
+    deserialize: (text) =>
+      keys.size === 0
+        ? JSON.parse(text)
+        : JSON.parse(text, (key, value) =>
+            keys.has(key) &&
+            typeof value === "string" &&
+            BIGINT_PATTERN.test(value)
+              ? BigInt(value)
+              : value
+          ),
+  };
+}
+
+/**
+ * JSON codec sending BigInt values as decimal strings
+ *
+ * Responses are parsed as plain JSON. Use createBigIntCodec to revive
+ * properties, or `z.coerce.bigint()` in the response schema.
+ */
+export const bigIntCodec: Codec = createBigIntCodec();
+
+/**
+ * Type annotation tree of the superjson format
+ *
+ * A leaf is `[type]`, an inner node `[type, children]` whose children are
+ * keyed by dot-separated paths relative to the node.
+ */
+type AnnotationTree = [string] | [string, AnnotationRecord];
+type AnnotationRecord = Record<string, AnnotationTree>;
+
+/**
+ * Result of serializing a single value into the superjson format
+ */
+type Walked = {
+  json: unknown;
+  annotation?: AnnotationTree;
+  children?: AnnotationRecord;
+};
+
+/**
+ * Codec using the tagged format of superjson
+ *
+ * Values are sent as `{ json, meta: { values } }`, where `meta` records the
+ * type of every Date, BigInt, Map, Set, RegExp, URL, undefined and
+ * non-finite number, so that both sides revive them. Compatible with servers
+ * using `superjson.serialize` and `superjson.deserialize` (e.g. tRPC).
+ *
+ * @example
+ * ```typescript
+ * const fetcher = createFetcher({ codec: superjsonCodec });
+ * await fetcher('/carts', { method: 'POST', body: { items: new Map([['a', 1n]]) } });
+ * // body: {"json":{"items":[["a","1"]]},"meta":{"values":{"items":["map",{"0.1":["bigint"]}]}}}
+ * ```
+ */
+export const superjsonCodec: Codec = {
+  serialize: (value) => {
+    const { json, annotation, children } = walk(value);
+    const values = annotation ?? children;
+
+    return JSON.stringify(values ? { json, meta: { values } } : { json });
+  },
+  deserialize: (text) => {
+    const payload = JSON.parse(text);
+
+    // Bodies not produced by superjson (e.g. proxy errors) are kept as they are
+    if (!payload || typeof payload !== "object" || !("json" in payload)) {
+      return payload;
+    }
+
+    const values = payload.meta?.values;
+    if (!values) {
+      return payload.json;
+    }
+
+    return Array.isArray(values)
+      ? applyAnnotation(payload.json, values as AnnotationTree)
+      : applyChildren(payload.json, values as AnnotationRecord);
+  },
+};
+
+/**
+ * Convert a value into JSON-safe data and its type annotations
+ */
+function walk(value: unknown): Walked {
+  if (value === undefined) {
+    return { json: undefined, annotation: ["undefined"] };
+  }
+
+  if (typeof value === "bigint") {
+    return { json: value.toString(), annotation: ["bigint"] };
+  }
+
+  if (typeof value === "number" && (!Number.isFinite(value) || Object.is(value, -0))) {
+    return {
+      json: Object.is(value, -0) ? "-0" : String(value),
+      annotation: ["number"],
+    };
+  }
+
+  if (value instanceof Date) {
+    return { json: value.toISOString(), annotation: ["Date"] };
+  }
+
+  if (value instanceof RegExp) {
+    return { json: String(value), annotation: ["regexp"] };
+  }
+
+  if (typeof URL !== "undefined" && value instanceof URL) {
+    return { json: value.href, annotation: ["URL"] };
+  }
+
+  if (value instanceof Map) {
+    const entries = walk([...value.entries()]);
+    return { json: entries.json, annotation: withChildren("map", entries) };
+  }
+
+  if (value instanceof Set) {
+    const items = walk([...value.values()]);
+    return { json: items.json, annotation: withChildren("set", items) };
+  }
+
+  if (Array.isArray(value) || (value !== null && typeof value === "object")) {
+    const json: Record<string, unknown> | unknown[] = Array.isArray(value)
+      ? []
+      : {};
+    const children: AnnotationRecord = {};
+
+    for (const [key, item] of Object.entries(value)) {
+      const walked = walk(item);
+      (json as Record<string, unknown>)[key] =
+        Array.isArray(value) && walked.json === undefined ? null : walked.json;
+
+      // Paths of plain containers are joined into their parent's
+      const path = escapeKey(key);
+      if (walked.annotation) {
+        children[path] = walked.annotation;
+      } else if (walked.children) {
+        for (const [childPath, tree] of Object.entries(walked.children)) {
+          children[`${path}.${childPath}`] = tree;
+        }
+      }
+    }
+
+    return Object.keys(children).length > 0
+      ? { json, children }
+      : { json };
+  }
+
+  return { json: value };
+}
+
+/**
+ * Build the annotation of a Map or Set from its walked entries
+ */
+function withChildren(type: string, walked: Walked): AnnotationTree {
+  return walked.children ? [type, walked.children] : [type];
+}
+
+/**
+ * Revive the annotated values below a node
+ */
+function applyChildren(value: unknown, children: AnnotationRecord): unknown {
+  for (const [path, tree] of Object.entries(children)) {
+    const segments = parsePath(path);
+    const target = getIn(value, segments);
+    const revived = applyAnnotation(target, tree);
+
+    if (segments.length === 0) {
+      value = revived;
+    } else {
+      const parent = getIn(value, segments.slice(0, -1)) as Record<
+        string,
+        unknown
+      >;
+      parent[segments[segments.length - 1]] = revived;
+    }
+  }
+
+  return value;
+}
+
+/**
+ * Revive a node, its children first
+ */
+function applyAnnotation(value: unknown, tree: AnnotationTree): unknown {
+  const [type, children] = tree;
+  const json = children ? applyChildren(value, children) : value;
+
+  switch (type) {
+    case "undefined":
+      return undefined;
+    case "bigint":
+      return BigInt(json as string);
+    case "number":
+      return Number(json);
+    case "Date":
+      return new Date(json as string);
+    case "regexp": {
+      const source = json as string;
+      const flagsIndex = source.lastIndexOf("/");
+      return new RegExp(source.slice(1, flagsIndex), source.slice(flagsIndex + 1));
+    }
+    case "URL":
+      return new URL(json as string);
+    case "map":
+      return new Map(json as [unknown, unknown][]);
+    case "set":
+      return new Set(json as unknown[]);
+    default:
+      return json;
+  }
+}
+
+/**
+ * Read the value at a path
+ */
+function getIn(value: unknown, segments: string[]): unknown {
+  return segments.reduce<unknown>(
+    (current, segment) => (current as Record<string, unknown>)?.[segment],
+    value
+  );
+}
+
+/**
+ * Escape the dots of an object key for use in a path
+ */
+function escapeKey(key: string): string {
+  return key.replace(/\./g, "\\.");
+}
+
+/**
+ * Split a path on unescaped dots
+ */
+function parsePath(path: string): string[] {
+  if (path === "") {
+    return [];
+  }
+
+  const segments: string[] = [];
+  let segment = "";
+
+  for (let index = 0; index < path.length; index++) {
+    const char = path[index];
+
+    if (char === "\\" && path[index + 1] === ".") {
+      segment += ".";
+      index++;
+    } else if (char === ".") {
+      segments.push(segment);
+      segment = "";
+    } else {
+      segment += char;
+    }
+  }
+
+  segments.push(segment);
+  return segments;
+}
@@ -1,15 +1,42 @@
 import type {
+  Codec,
+  ErrorSchemas,
   FetchConfig,
   FetcherFunction,
   FetchOptions,
-  APIError,
-  ValidationError,
+  TransportRequest,
+  TransportResponse,
 } from "../types";
+import {
+  AbortError,
+  HttpError,
+  NetworkError,
+  RequestError,
+  SchemaValidationError,
+  type RequestErrorContext,
+} from "../errors";
+import { resolveRetryPolicy, withRetry } from "./retry";
+import { buildQueryString, resolveQuerySerializer } from "./query";
+import { joinURL, replacePath } from "./path";
+import { convertKeys, resolveCaseConversion } from "./caseConversion";
+import { requiresIdempotencyKey, resolveIdempotency } from "./idempotency";
+import { readBody, withTimeout } from "./timeout";
+import { withHttpCache } from "./httpCache";
+import { emitEvent, getBodySize, getContentLength } from "./events";
+import { formatTraceparent, noopTracer, shouldPropagate } from "./tracing";
+import { fetchTransport, normalizeHeaders } from "./transports";
+import {
+  createInterceptorMiddleware,
+  runErrorMiddleware,
+  runRequestMiddleware,
+  runResponseMiddleware,
+} from "./middleware";
+import { createAuthManager, withAuth } from "./auth";
 
 /**
- * Creates a configured fetcher function with interceptor support
+ * Creates a configured fetcher function with middleware and retry support
  *
- * @param config - Fetch configuration with baseURL, headers, and interceptors
+ * @param config - Fetch configuration with baseURL, services, headers, middleware and retry policy
  * @returns Typed fetcher function for making HTTP requests
  *
  * @example
@@ -20,7 +47,11 @@ import type {
  *   beforeRequest: async (config) => {
  *     config.headers = { ...config.headers, Authorization: `Bearer ${token}` };
  *     return config;
- *   }
+ *   },
+ *   middleware: [
+ *     { onResponse: (response, { endpoint }) => { log(endpoint?.name, response.status); } },
+ *   ],
+ *   retry: { attempts: 3, statuses: [429, 503] },
  * });
  *
  * const data = await fetcher('/users/:id', {
@@ -33,9 +64,41 @@ export function createFetcher(config: FetchConfig = {}): FetcherFunction {
   const {
     baseURL = "",
     headers: defaultHeaders = {},
-    beforeRequest,
-    afterResponse,
+    retry: defaultRetry,
+    timeout: defaultTimeout,
+    unwrap,
+    codec,
+    services = {},
+    scheduler,
+    circuitBreaker,
+    onEvent,
+    tracing = {},
   } = config;
+  const { tracer = noopTracer, propagate } = tracing;
+
+  // Conditional requests and 304 handling happen below the retry and auth layers
+  const transport = withHttpCache(
+    config.transport ?? fetchTransport,
+    config.httpCache
+  );
+
+  // The legacy interceptors run as the first entry of the middleware chain
+  const interceptors = createInterceptorMiddleware(config);
+  const middleware = [
+    ...(interceptors ? [interceptors] : []),
+    ...(config.middleware ?? []),
+  ];
+
+  // Groups declared by a service are sent to it by default
+  const groupServices = new Map<string, string>();
+  for (const [name, service] of Object.entries(services)) {
+    for (const group of service.groups ?? []) {
+      groupServices.set(group, name);
+    }
+  }
+
+  // Token state is shared by every request so that concurrent 401s trigger a single refresh
+  const auth = config.auth ? createAuthManager(config.auth) : undefined;
 
   return async function fetcher<
     TResponse = unknown,
@@ -49,233 +112,579 @@ export function createFetcher(config: FetchConfig = {}): FetcherFunction {
       method = "GET",
       body,
       params,
+      paramsSchema,
       query,
+      querySchema,
+      querySerializer,
       signal,
       schema,
+      responses,
       bodySchema,
+      retry,
+      timeout = defaultTimeout,
+      errors,
+      transform,
     } = options;
 
+    // Resolve the service the request is sent to
+    const serviceName =
+      options.service ??
+      (options.endpoint ? groupServices.get(options.endpoint.group) : undefined);
+    const service =
+      serviceName !== undefined ? services[serviceName] : undefined;
+    if (serviceName !== undefined && !service) {
+      throw new RequestError(`Unknown service: ${serviceName}`, {
+        url: path,
+        method,
+        endpoint: options.endpoint,
+      });
+    }
+    const requestBaseURL = options.baseURL ?? service?.baseURL ?? baseURL;
+    const requestMiddleware = service?.middleware
+      ? [...middleware, ...service.middleware]
+      : middleware;
+
+    const caseConversion = resolveCaseConversion(
+      config.caseConversion,
+      options.caseConversion
+    );
+
+    // Validated path and query parameters, reported with the events
+    let pathParams = params;
+    let queryParams: unknown = query;
+
+    // Report schema validation failures before rejecting with them
+    const validationFailed = (error: SchemaValidationError) => {
+      emitEvent(onEvent, {
+        type: "validation:error",
+        url: error.url ?? path,
+        method,
+        endpoint: options.endpoint,
+        params: pathParams,
+        query: queryParams,
+        target: error.target,
+        error,
+        timestamp: Date.now(),
+      });
+      return error;
+    };
+
+    // Validate and coerce path parameters against paramsSchema if provided
+    if (paramsSchema) {
+      const result = paramsSchema.safeParse(params ?? {});
+      if (!result.success) {
+        throw validationFailed(
+          new SchemaValidationError("params", result.error, {
+            url: path,
+            method,
+            endpoint: options.endpoint,
+          })
+        );
+      }
+      pathParams = result.data;
+    }
+
     // Replace path parameters with actual values
-    let finalPath = replacePath(path, params);
+    let finalPath = replacePath(path, pathParams);
+
+    // Validate and transform query parameters against querySchema if provided
+    if (querySchema) {
+      const result = querySchema.safeParse(query ?? {});
+      if (!result.success) {
+        throw validationFailed(
+          new SchemaValidationError("query", result.error, {
+            url: joinURL(requestBaseURL, finalPath),
+            method,
+            endpoint: options.endpoint,
+          })
+        );
+      }
+      queryParams = result.data;
+    }
+
+    // Convert query keys to the wire casing after validation
+    const wireQuery = caseConversion
+      ? convertKeys(queryParams, "snake", caseConversion.exclude)
+      : queryParams;
 
     // Add query parameters to the path
-    if (query) {
-      const queryString = buildQueryString(query);
+    if (wireQuery) {
+      const queryString = buildQueryString(
+        wireQuery,
+        resolveQuerySerializer(config.querySerializer, querySerializer)
+      );
       if (queryString) {
         finalPath += (finalPath.includes("?") ? "&" : "?") + queryString;
       }
     }
 
     // Construct full URL
-    const url = baseURL + finalPath;
+    const url = joinURL(requestBaseURL, finalPath);
+    const errorContext: RequestErrorContext = {
+      url,
+      method,
+      endpoint: options.endpoint,
+    };
 
     // Build request configuration
-    let requestInit: RequestInit = {
+    const requestInit: RequestInit = {
       method,
-      headers: {
-        ...defaultHeaders,
-        ...(body !== undefined && { "Content-Type": "application/json" }),
-      },
       signal,
     };
 
     // Validate and add body for mutation methods
+    let requestBody: unknown = body;
     if (
       body !== undefined &&
       (method === "POST" || method === "PUT" || method === "PATCH")
     ) {
-      // Validate body against bodySchema if provided
+      // Validate body against bodySchema if provided and send the parsed
+      // output, so that transforms, defaults and stripped keys take effect
       if (bodySchema) {
         const result = bodySchema.safeParse(body);
         if (!result.success) {
-          const validationError: ValidationError = {
-            type: "validation",
-            errors: result.error,
-          };
-          throw validationError;
+          throw validationFailed(
+            new SchemaValidationError("body", result.error, errorContext)
+          );
         }
+        requestBody = result.data;
       }
-      requestInit.body = JSON.stringify(body);
+      const wireBody = caseConversion
+        ? convertKeys(requestBody, "snake", caseConversion.exclude)
+        : requestBody;
+      requestInit.body = codec
+        ? codec.serialize(wireBody)
+        : JSON.stringify(wireBody);
     }
 
-    // Execute beforeRequest interceptor
-    if (beforeRequest) {
-      requestInit = await beforeRequest(requestInit);
-    }
+    // Endpoint header functions receive the validated call variables
+    const endpointHeaders =
+      typeof options.endpointHeaders === "function"
+        ? await options.endpointHeaders({
+            params: pathParams ?? {},
+            query: queryParams,
+            body: requestBody,
+          })
+        : options.endpointHeaders;
+
+    // The key is generated once here, before retries and auth replays, unless
+    // the caller generated it for the whole logical mutation
+    const idempotency = resolveIdempotency(
+      config.idempotency,
+      options.idempotency
+    );
+    const idempotencyHeaders = requiresIdempotencyKey(idempotency, method)
+      ? {
+          [idempotency.header]:
+            options.idempotencyKey ?? idempotency.generateKey(),
+        }
+      : undefined;
+
+    // Later sources take precedence: global < service < endpoint < call
+    requestInit.headers = mergeHeaders(
+      defaultHeaders,
+      service?.headers,
+      body !== undefined ? { "Content-Type": "application/json" } : undefined,
+      endpointHeaders,
+      idempotencyHeaders,
+      options.headers
+    );
+
+    // Let the middleware chain rewrite the URL and request configuration
+    const context = await runRequestMiddleware(requestMiddleware, {
+      url,
+      init: requestInit,
+      endpoint: options.endpoint,
+      options: options as FetchOptions,
+    });
+    errorContext.url = context.url;
+
+    // Lifecycle events report the final URL and the validated parameters
+    const eventContext = {
+      url: context.url,
+      method,
+      endpoint: options.endpoint,
+      params: pathParams,
+      query: queryParams,
+    };
+    const startedAt = Date.now();
+    emitEvent(onEvent, {
+      type: "request:start",
+      ...eventContext,
+      size: getBodySize(context.init.body),
+      timestamp: startedAt,
+    });
+
+    // One client span covers the request, its retries and the response
+    // parsing. It records the path template rather than the concrete URL.
+    const pathTemplate = options.endpoint?.path ?? path;
+    const span = tracer.startSpan(`${method} ${pathTemplate}`, {
+      kind: 2,
+      attributes: {
+        "http.request.method": method,
+        "url.template": pathTemplate,
+        "api.endpoint.group": options.endpoint?.group,
+        "api.endpoint.name": options.endpoint?.name,
+        "api.service": serviceName,
+      },
+    });
+    const traceparent = shouldPropagate(propagate, context.url)
+      ? formatTraceparent(span.spanContext())
+      : undefined;
+
+    const retryPolicy = resolveRetryPolicy(defaultRetry, retry);
+    let data: unknown;
+    let responded = false;
+
+    // Mutations jump ahead of queued queries unless a priority is given
+    const priority = options.priority ?? (method === "GET" ? "normal" : "high");
+
+    // Functions stopping the timeouts of the attempts, once their bodies are
+    // read or discarded
+    const releaseTimeouts: (() => void)[] = [];
+
+    // Read a response body under its timeout, converting its keys back from
+    // the wire casing
+    const readData = async (response: TransportResponse) => {
+      const parsed = await readBody(response, () =>
+        parseResponseData(response, codec)
+      );
+      return caseConversion
+        ? convertKeys(parsed, "camel", caseConversion.exclude)
+        : parsed;
+    };
 
     try {
-      // Make the fetch call
-      let response = await fetch(url, requestInit);
-
-      // Execute afterResponse interceptor
-      if (afterResponse) {
-        response = await afterResponse(response);
+      // Send the request through the transport, retrying transient failures
+      // per the retry policy. Each attempt waits for a scheduler slot, the
+      // timeout applies to each attempt separately from the moment it is sent
+      // until its body is read, and a 401 triggers a token refresh followed
+      // by a single replay.
+      const transportRequest = toTransportRequest(context.url, context.init);
+      // Trace context set by the caller or the middleware is kept
+      if (
+        traceparent &&
+        !Object.keys(transportRequest.headers).some(
+          (name) => name.toLowerCase() === "traceparent"
+        )
+      ) {
+        transportRequest.headers.traceparent = traceparent;
+      }
+      const sendAttempt = (headers: Record<string, string>) =>
+        withTimeout(
+          (attemptSignal) =>
+            transport({
+              ...transportRequest,
+              headers,
+              signal: attemptSignal,
+            }),
+          timeout,
+          transportRequest.signal,
+          errorContext,
+          releaseTimeouts
+        );
+      const send = () =>
+        withAuth(
+          (headers) =>
+            withRetry(
+              () =>
+                scheduler
+                  ? scheduler.schedule(
+                      {
+                        url: transportRequest.url,
+                        method,
+                        priority,
+                        service: serviceName,
+                        endpoint: options.endpoint,
+                      },
+                      () => sendAttempt(headers),
+                      transportRequest.signal
+                    )
+                  : sendAttempt(headers),
+              method,
+              retryPolicy,
+              transportRequest.signal,
+              (attempt) =>
+                emitEvent(onEvent, {
+                  type: "request:retry",
+                  ...eventContext,
+                  ...attempt,
+                  timestamp: Date.now(),
+                })
+            ),
+          auth,
+          transportRequest.headers
+        );
+      let response: TransportResponse;
+
+      try {
+        // An open circuit rejects the request before it is scheduled or sent,
+        // and the breaker counts the outcome once retries are exhausted
+        response = circuitBreaker
+          ? await circuitBreaker.execute(
+              {
+                url: transportRequest.url,
+                method,
+                service: serviceName,
+                endpoint: options.endpoint,
+              },
+              send,
+              transportRequest.signal
+            )
+          : await send();
+      } catch (error) {
+        response = await runErrorMiddleware(requestMiddleware, error, context);
       }
 
+      response = await runResponseMiddleware(requestMiddleware, response, context);
+
+      responded = true;
+      span.setAttribute("http.response.status_code", response.status);
+      emitEvent(onEvent, {
+        type: "request:response",
+        ...eventContext,
+        status: response.status,
+        duration: Date.now() - startedAt,
+        size: getContentLength(response),
+        timestamp: Date.now(),
+      });
+
       // Handle HTTP error status codes
       if (!response.ok) {
-        const errorData = await parseResponseData(response);
-        const error: APIError = {
-          status: response.status,
-          statusText: response.statusText,
-          message: `HTTP ${response.status}: ${response.statusText}`,
-          data: errorData,
-        };
-        throw error;
+        throw await createHttpError(
+          response,
+          errors,
+          errorContext,
+          readData,
+          validationFailed
+        );
       }
 
-      // Parse and return response data
-      const data = await parseResponseData(response);
+      const receivedAt = Date.now();
+
+      // Pick the schema declared for the status, falling back to `schema`.
+      // Without one, undeclared statuses are rejected instead of resolving
+      // with data outside the declared shapes.
+      const responseSchema =
+        responses && response.status in responses
+          ? responses[response.status]
+          : schema;
+
+      if (responses && responseSchema === undefined) {
+        throw new HttpError(
+          {
+            status: response.status,
+            statusText: response.statusText,
+            data: await readData(response),
+          },
+          errorContext
+        );
+      }
 
-      // Validate response data against schema if provided
-      if (schema) {
-        const result = schema.safeParse(data);
-        if (!result.success) {
-          const validationError: ValidationError = {
-            type: "validation",
-            errors: result.error,
-          };
-          throw validationError;
+      // Statuses declared without content resolve without parsing the body
+      let body: unknown;
+      if (responseSchema !== null) {
+        // Parse response data
+        body = await readData(response);
+        data = body;
+
+        // Validate response data against schema if provided
+        if (responseSchema) {
+          const result = responseSchema.safeParse(data);
+          if (!result.success) {
+            throw validationFailed(
+              new SchemaValidationError("response", result.error, errorContext)
+            );
+          }
+          data = result.data;
         }
-        return result.data as TResponse;
       }
 
-      return data as TResponse;
+      options.onResponseMeta?.({
+        status: response.status,
+        headers: response.headers,
+        receivedAt,
+        body,
+      });
     } catch (error) {
-      // If it's already an APIError or ValidationError, rethrow it
-      if (isAPIError(error) || isValidationError(error)) {
-        throw error;
+      // Errors raised by the fetcher itself are already typed. Cancellation
+      // by the caller is not a network failure, other transport failures map
+      // to NetworkError.
+      const requestError =
+        error instanceof RequestError
+          ? error
+          : signal?.aborted
+          ? new AbortError({ ...errorContext, cause: error })
+          : new NetworkError({ ...errorContext, cause: error });
+
+      if (!responded) {
+        emitEvent(onEvent, {
+          type: "request:error",
+          ...eventContext,
+          duration: Date.now() - startedAt,
+          error: requestError,
+          timestamp: Date.now(),
+        });
       }
 
-      // Map network errors to APIError
-      const apiError: APIError = {
-        status: 0,
-        statusText: "Network Error",
-        message:
-          error instanceof Error ? error.message : "An unknown error occurred",
-        data: undefined,
-      };
-      throw apiError;
+      span.recordException(requestError);
+      span.setStatus({ code: 2, message: requestError.message });
+      throw requestError;
+    } finally {
+      releaseTimeouts.forEach((release) => release());
+      span.end();
+    }
+
+    // Unwrap the validated data with the global unwrap, unless the endpoint
+    // opts out, then apply the endpoint transform
+    if (unwrap && options.unwrap !== false) {
+      data =
+        typeof unwrap === "string"
+          ? unwrapKey(data, unwrap)
+          : await unwrap(data, options.endpoint);
     }
+
+    return (transform ? await transform(data) : data) as TResponse;
   };
 }
 
 /**
- * Replace path parameters with actual values
+ * Replace an object response with the value of one of its properties
  *
- * @param path - Path template with :param syntax (e.g., "/users/:id")
- * @param params - Object containing parameter values
- * @returns Path with parameters replaced
+ * Responses without the property, such as empty bodies, are kept as they are.
  *
- * @example
- * replacePath("/users/:id", { id: 123 }) // "/users/123"
- * replacePath("/users/:userId/posts/:postId", { userId: 1, postId: 2 }) // "/users/1/posts/2"
+ * @param data - Validated response
+ * @param key - Property holding the payload, e.g. "data"
+ * @returns Value of the property, or the response itself
  */
-function replacePath(
-  path: string,
-  params?: Record<string, string | number>
-): string {
-  if (!params) {
-    return path;
-  }
-
-  let result = path;
-
-  // Extract all parameter names from the path
-  const paramNames = extractParamNames(path);
-
-  // Validate all required parameters are provided
-  for (const paramName of paramNames) {
-    if (!(paramName in params)) {
-      throw new Error(`Missing required path parameter: ${paramName}`);
-    }
-
-    // Replace :param with actual value
-    result = result.replace(`:${paramName}`, String(params[paramName]));
-  }
-
-  return result;
+function unwrapKey(data: unknown, key: string): unknown {
+  return typeof data === "object" && data !== null && key in data
+    ? (data as Record<string, unknown>)[key]
+    : data;
 }
 
 /**
- * Extract parameter names from a path template
+ * Create the error for a non-2xx response
  *
- * @param path - Path template with :param syntax
- * @returns Array of parameter names
+ * When an error schema is declared for the status (or as `default`), the body
+ * is validated against it. A body that does not match keeps the status: the
+ * HttpError carries the raw body, and the SchemaValidationError as its cause.
  *
- * @example
- * extractParamNames("/users/:id") // ["id"]
- * extractParamNames("/users/:userId/posts/:postId") // ["userId", "postId"]
+ * @param response - Response with a non-2xx status
+ * @param errorSchemas - Error schemas declared on the endpoint
+ * @param context - Request details attached to the error
+ * @param readData - Function reading the response body
+ * @param onInvalid - Called with the validation error of a mismatched body
+ * @returns HttpError with the parsed body, or the raw body if it does not match
  */
-function extractParamNames(path: string): string[] {
-  const matches = path.match(/:([a-zA-Z_][a-zA-Z0-9_]*)/g);
-  if (!matches) {
-    return [];
+async function createHttpError(
+  response: TransportResponse,
+  errorSchemas: ErrorSchemas | undefined,
+  context: RequestErrorContext,
+  readData: (response: TransportResponse) => Promise<unknown>,
+  onInvalid: (error: SchemaValidationError) => SchemaValidationError
+): Promise<HttpError> {
+  const { status, statusText } = response;
+  const data = await readData(response);
+
+  const errorSchema = errorSchemas?.[status] ?? errorSchemas?.default;
+  if (!errorSchema) {
+    return new HttpError({ status, statusText, data }, context);
   }
-  return matches.map((match) => match.slice(1)); // Remove the leading ':'
+
+  const result = errorSchema.safeParse(data);
+  if (!result.success) {
+    const cause = onInvalid(
+      new SchemaValidationError("error", result.error, context)
+    );
+    return new HttpError({ status, statusText, data }, { ...context, cause });
+  }
+
+  return new HttpError({ status, statusText, data: result.data }, context);
 }
 
 /**
- * Build URL query string from query parameters object
+ * Merge header records, later records taking precedence
  *
- * @param query - Query parameters object
- * @returns URL-encoded query string (without leading '?')
+ * Names are compared case-insensitively and keep the casing of the record
+ * that set them last. An `undefined` value removes the header.
  *
- * @example
- * buildQueryString({ page: 1, search: "test" }) // "page=1&search=test"
- * buildQueryString({ tags: ["a", "b"] }) // "tags=a&tags=b"
- * buildQueryString({ name: "John Doe" }) // "name=John%20Doe"
+ * @param sources - Header records in increasing order of precedence
+ * @returns Merged headers
  */
-function buildQueryString(query: unknown): string {
-  if (!query || typeof query !== "object") {
-    return "";
-  }
-
-  const params = new URLSearchParams();
-
-  for (const [key, value] of Object.entries(query)) {
-    if (value === undefined || value === null) {
-      continue;
+function mergeHeaders(
+  ...sources: (Record<string, string | undefined> | undefined)[]
+): Record<string, string> {
+  const headers = new Map<string, [string, string | undefined]>();
+
+  for (const source of sources) {
+    for (const [name, value] of Object.entries(source ?? {})) {
+      headers.set(name.toLowerCase(), [name, value]);
     }
+  }
 
-    if (Array.isArray(value)) {
-      // Handle arrays by adding multiple entries with the same key
-      value.forEach((item) => {
-        if (item !== undefined && item !== null) {
-          params.append(key, String(item));
-        }
-      });
-    } else if (typeof value === "object") {
-      // Handle nested objects by JSON stringifying them
-      params.append(key, JSON.stringify(value));
-    } else {
-      // Handle primitive values
-      params.append(key, String(value));
+  const merged: Record<string, string> = {};
+  for (const [name, value] of headers.values()) {
+    if (value !== undefined) {
+      merged[name] = value;
     }
   }
 
-  return params.toString();
+  return merged;
+}
+
+/**
+ * Build the normalized transport request from the final RequestInit
+ *
+ * @param url - Fully resolved request URL
+ * @param init - RequestInit after interceptors ran
+ * @returns Normalized request for the transport
+ */
+function toTransportRequest(url: string, init: RequestInit): TransportRequest {
+  return {
+    url,
+    method: init.method ?? "GET",
+    headers: normalizeHeaders(init.headers),
+    body: init.body,
+    signal: init.signal,
+    init,
+  };
 }
 
 /**
  * Parse response data, handling JSON and text responses
  *
- * @param response - Fetch Response object
+ * @param response - Response returned by the transport
+ * @param codec - Codec deserializing JSON bodies, if configured
  * @returns Parsed response data
  */
-async function parseResponseData(response: Response): Promise<unknown> {
+async function parseResponseData(
+  response: TransportResponse,
+  codec?: Codec
+): Promise<unknown> {
+  // No Content and Reset Content responses never carry a body
+  if (response.status === 204 || response.status === 205) {
+    return undefined;
+  }
+
   const contentType = response.headers.get("content-type");
+  const isJSON = !!contentType && contentType.includes("application/json");
 
-  if (contentType && contentType.includes("application/json")) {
+  if (isJSON && !codec) {
     return await response.json();
   }
 
   const text = await response.text();
+  const deserialize = codec ? codec.deserialize : JSON.parse;
+
+  if (isJSON) {
+    return text ? deserialize(text) : undefined;
+  }
 
   // Try to parse as JSON even if content-type is not set
   if (text) {
     try {
-      return JSON.parse(text);
+      return deserialize(text);
     } catch {
       return text;
     }
@@ -283,35 +692,3 @@ async function parseResponseData(response: Response): Promise<unknown> {
 
   return undefined;
 }
-
-/**
- * Type guard to check if an error is an APIError
- *
- * @param error - Error to check
- * @returns True if error is an APIError
- */
-function isAPIError(error: unknown): error is APIError {
-  return (
-    typeof error === "object" &&
-    error !== null &&
-    "status" in error &&
-    "statusText" in error &&
-    "message" in error
-  );
-}
-
-/**
- * Type guard to check if an error is a ValidationError
- *
- * @param error - Error to check
- * @returns True if error is a ValidationError
- */
-function isValidationError(error: unknown): error is ValidationError {
-  return (
-    typeof error === "object" &&
-    error !== null &&
-    "type" in error &&
-    error.type === "validation" &&
-    "errors" in error
-  );
-}
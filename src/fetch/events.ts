@@ -0,0 +1,52 @@
+import type { APIEvent, APIEventListener, TransportResponse } from "../types";
+
+/**
+ * Pass an event to the listener of the fetch configuration
+ *
+ * Errors thrown by the listener are ignored, so that logging and diagnostics
+ * never fail a request.
+ *
+ * @param listener - Listener from FetchConfig.onEvent
+ * @param event - Lifecycle event
+ */
+export function emitEvent(
+  listener: APIEventListener | undefined,
+  event: APIEvent
+): void {
+  if (!listener) {
+    return;
+  }
+
+  try {
+    listener(event);
+  } catch {
+    // Ignored, see above
+  }
+}
+
+/**
+ * Byte size of a request body, when it can be measured without reading it
+ */
+export function getBodySize(body: unknown): number | undefined {
+  if (typeof body === "string") {
+    return new TextEncoder().encode(body).byteLength;
+  }
+
+  if (typeof Blob !== "undefined" && body instanceof Blob) {
+    return body.size;
+  }
+
+  return undefined;
+}
+
+/**
+ * Byte size of a response body declared by its Content-Length header
+ */
+export function getContentLength(
+  response: TransportResponse
+): number | undefined {
+  const header = response.headers.get("content-length");
+  const length = header ? Number(header) : NaN;
+
+  return Number.isFinite(length) ? length : undefined;
+}
@@ -0,0 +1,126 @@
+import type { FreshnessConfig, FreshnessOption, ResponseMeta } from "../types";
+
+/**
+ * Resolve the freshness option of an endpoint
+ *
+ * @param option - Freshness option from the endpoint
+ * @returns Resolved configuration, or undefined when freshness is not derived
+ *
+ * @example
+ * resolveFreshness(true) // { headers: true }
+ * resolveFreshness({ field: "expiresAt" }) // { headers: true, field: "expiresAt" }
+ */
+export function resolveFreshness(
+  option?: FreshnessOption
+): FreshnessConfig | undefined {
+  if (!option) {
+    return undefined;
+  }
+
+  return { headers: true, ...(typeof option === "object" && option) };
+}
+
+/**
+ * Compute the time at which a response becomes stale
+ *
+ * The response field declared in the configuration takes precedence over the
+ * headers. `Cache-Control: max-age` (minus `Age`) takes precedence over
+ * `Expires`, which is evaluated relative to the server's `Date` header to
+ * tolerate clock skew. `no-cache` and `no-store` make the response stale
+ * immediately.
+ *
+ * @param config - Resolved freshness configuration
+ * @param meta - Metadata of the response
+ * @param data - Response data, for field-based expiry
+ * @returns Expiry timestamp in milliseconds, or undefined when the response declares none
+ *
+ * @example
+ * getExpiresAt({ headers: true }, { headers: new Headers({ "cache-control": "max-age=60" }), receivedAt: 0, status: 200 })
+ * // 60000
+ */
+export function getExpiresAt(
+  config: FreshnessConfig,
+  meta: ResponseMeta | undefined,
+  data: unknown
+): number | undefined {
+  if (config.field !== undefined) {
+    const value =
+      typeof config.field === "function"
+        ? config.field(data)
+        : getField(data, config.field);
+    const expiresAt = toTimestamp(value);
+    if (expiresAt !== undefined) {
+      return expiresAt;
+    }
+  }
+
+  if (!config.headers || !meta) {
+    return undefined;
+  }
+
+  const { headers, receivedAt } = meta;
+  const cacheControl = headers.get("cache-control") ?? "";
+
+  if (/(^|,)\s*(no-cache|no-store)\s*(,|$)/i.test(cacheControl)) {
+    return receivedAt;
+  }
+
+  const maxAge = /(?:^|,)\s*max-age\s*=\s*"?(\d+)"?/i.exec(cacheControl);
+  if (maxAge) {
+    const age = Number(headers.get("age")) || 0;
+    return receivedAt + Math.max(0, Number(maxAge[1]) - age) * 1000;
+  }
+
+  const expires = headers.get("expires");
+  if (expires !== null) {
+    const expiresAt = /^\s*-?\d+\s*$/.test(expires)
+      ? NaN
+      : Date.parse(expires);
+    // Invalid dates such as "0" mean already expired
+    if (Number.isNaN(expiresAt)) {
+      return receivedAt;
+    }
+
+    const date = Date.parse(headers.get("date") ?? "");
+    return Number.isNaN(date)
+      ? expiresAt
+      : receivedAt + Math.max(0, expiresAt - date);
+  }
+
+  return undefined;
+}
+
+/**
+ * Read a dot-separated path from the response data
+ */
+function getField(data: unknown, path: string): unknown {
+  return path
+    .split(".")
+    .reduce<unknown>(
+      (value, key) =>
+        value !== null && typeof value === "object"
+          ? (value as Record<string, unknown>)[key]
+          : undefined,
+      data
+    );
+}
+
+/**
+ * Convert a Date, ISO string or epoch milliseconds into a timestamp
+ */
+function toTimestamp(value: unknown): number | undefined {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? undefined : value.getTime();
+  }
+
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : undefined;
+  }
+
+  if (typeof value === "string") {
+    const timestamp = Date.parse(value);
+    return Number.isNaN(timestamp) ? undefined : timestamp;
+  }
+
+  return undefined;
+}
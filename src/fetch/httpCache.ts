@@ -0,0 +1,323 @@
+import type {
+  HttpCacheEntry,
+  HttpCacheOption,
+  HttpCacheStore,
+  Transport,
+  TransportResponse,
+} from "../types";
+import { createTransportResponse } from "./transports";
+
+/**
+ * Headers kept for transports whose response headers cannot be listed
+ */
+const STORED_HEADERS = [
+  "content-type",
+  "etag",
+  "last-modified",
+  "cache-control",
+  "expires",
+  "date",
+  "age",
+];
+
+/**
+ * Options of the in-memory HTTP cache store
+ */
+export type MemoryHttpCacheStoreOptions = {
+  /** Maximum number of stored responses, least recently used evicted first (default: 500) */
+  maxEntries?: number;
+};
+
+/**
+ * Create an in-memory store for the HTTP cache
+ *
+ * @param options - Store size limit
+ * @returns Store evicting the least recently used responses
+ *
+ * @example
+ * ```typescript
+ * const fetcher = createFetcher({
+ *   httpCache: { store: createMemoryHttpCacheStore({ maxEntries: 100 }) },
+ * });
+ * ```
+ */
+export function createMemoryHttpCacheStore(
+  options: MemoryHttpCacheStoreOptions = {}
+): HttpCacheStore {
+  const { maxEntries = 500 } = options;
+  const entries = new Map<string, HttpCacheEntry>();
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (entry) {
+        // Move the entry to the end of the eviction order
+        entries.delete(key);
+        entries.set(key, entry);
+      }
+      return entry;
+    },
+    set(key, entry) {
+      entries.delete(key);
+      entries.set(key, entry);
+
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value as string);
+      }
+    },
+    delete(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+/**
+ * Wrap a transport with an HTTP validator cache
+ *
+ * Successful GET responses carrying an ETag or Last-Modified header are
+ * stored per URL, along with a fingerprint of the request headers named in
+ * their `Vary` header and of the Authorization header. Later requests for the
+ * URL with the same header values send If-None-Match and If-Modified-Since,
+ * and a 304 response is replaced by the stored response, with the headers of
+ * the 304 applied over the stored ones. A 304 to conditional headers set by
+ * the caller without a matching entry is replaced by the response to the
+ * request sent again without them. Responses marked
+ * `Cache-Control: no-store` or `Vary: *` are not stored, and neither are
+ * requests with an Authorization header unless `authenticated` is set.
+ *
+ * @param transport - Transport performing the requests
+ * @param option - HTTP cache option from FetchConfig
+ * @returns Caching transport, or the transport itself when the cache is disabled
+ */
+export function withHttpCache(
+  transport: Transport,
+  option: HttpCacheOption | undefined
+): Transport {
+  if (!option) {
+    return transport;
+  }
+
+  const store =
+    (typeof option === "object" && option.store) ||
+    createMemoryHttpCacheStore();
+  const authenticated = typeof option === "object" && !!option.authenticated;
+
+  return async (request) => {
+    if (
+      request.method !== "GET" ||
+      (!authenticated && getHeader(request.headers, "authorization"))
+    ) {
+      return transport(request);
+    }
+
+    const key = request.url;
+    const stored = await store.get(key);
+    // Entries stored for other values of the varying headers do not apply
+    const entry =
+      stored?.variant === getVariant(request.headers, stored?.headers.vary)
+        ? stored
+        : undefined;
+    const headers = { ...request.headers };
+
+    // Validators set by the caller take precedence over the stored ones
+    if (entry?.etag && getHeader(headers, "if-none-match") === undefined) {
+      headers["If-None-Match"] = entry.etag;
+    }
+    if (
+      entry?.lastModified &&
+      getHeader(headers, "if-modified-since") === undefined
+    ) {
+      headers["If-Modified-Since"] = entry.lastModified;
+    }
+
+    let response = await transport({ ...request, headers });
+
+    if (response.status === 304 && entry) {
+      // Representation headers of the stored body are kept
+      const {
+        "content-type": _contentType,
+        "content-length": _contentLength,
+        ...updatedHeaders
+      } = readHeaders(response);
+      const updated: HttpCacheEntry = {
+        ...entry,
+        headers: { ...entry.headers, ...updatedHeaders },
+      };
+      updated.etag = updated.headers.etag ?? entry.etag;
+      updated.lastModified =
+        updated.headers["last-modified"] ?? entry.lastModified;
+
+      await store.set(key, updated);
+      return toResponse(updated, response.url);
+    }
+
+    // Without a stored body a 304 cannot be answered, so the request is sent
+    // again without its conditional headers
+    if (response.status === 304 && hasValidators(headers)) {
+      response = await transport({
+        ...request,
+        headers: removeValidators(headers),
+      });
+    }
+
+    const etag = response.headers.get("etag") ?? undefined;
+    const lastModified = response.headers.get("last-modified") ?? undefined;
+    const vary = response.headers.get("vary") ?? undefined;
+    const noStore =
+      /(^|,)\s*no-store\s*(,|$)/i.test(
+        response.headers.get("cache-control") ?? ""
+      ) || parseVary(vary).includes("*");
+
+    if (response.status !== 200 || (!etag && !lastModified) || noStore) {
+      if (noStore && stored) {
+        await store.delete?.(key);
+      }
+      return response;
+    }
+
+    // The body is read once to store it, then served from the stored text
+    const updated: HttpCacheEntry = {
+      status: response.status,
+      statusText: response.statusText,
+      headers: readHeaders(response),
+      body: await response.text(),
+      etag,
+      lastModified,
+      variant: getVariant(request.headers, vary),
+    };
+
+    await store.set(key, updated);
+    return toResponse(updated, response.url);
+  };
+}
+
+/**
+ * Conditional request headers
+ */
+const VALIDATOR_HEADERS = ["if-none-match", "if-modified-since"];
+
+/**
+ * Read a request header, ignoring the case of its name
+ */
+function getHeader(
+  headers: Record<string, string>,
+  name: string
+): string | undefined {
+  const match = Object.keys(headers).find(
+    (header) => header.toLowerCase() === name
+  );
+  return match === undefined ? undefined : headers[match];
+}
+
+/**
+ * Whether request headers include conditional headers
+ */
+function hasValidators(headers: Record<string, string>): boolean {
+  return VALIDATOR_HEADERS.some(
+    (name) => getHeader(headers, name) !== undefined
+  );
+}
+
+/**
+ * Copy request headers without their conditional headers
+ */
+function removeValidators(
+  headers: Record<string, string>
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers).filter(
+      ([name]) => !VALIDATOR_HEADERS.includes(name.toLowerCase())
+    )
+  );
+}
+
+/**
+ * Lowercase header names listed in a Vary header
+ */
+function parseVary(vary: string | undefined): string[] {
+  return (vary ?? "")
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Fingerprint of the request headers a response varies on
+ *
+ * Covers the headers named in the Vary header and the Authorization header,
+ * hashed so that stores never hold credentials.
+ *
+ * @param headers - Request headers
+ * @param vary - Vary header of the response
+ * @returns Hash of the header values
+ */
+function getVariant(
+  headers: Record<string, string>,
+  vary: string | undefined
+): string {
+  const names = [...new Set([...parseVary(vary), "authorization"])].sort();
+  const values = names.map((name) => [name, getHeader(headers, name) ?? null]);
+
+  return hash(JSON.stringify(values));
+}
+
+/**
+ * 53-bit string hash (cyrb53), as a hex string
+ */
+function hash(value: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+
+  for (let index = 0; index < value.length; index++) {
+    const code = value.charCodeAt(index);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+}
+
+/**
+ * Build a response from a stored entry
+ */
+function toResponse(entry: HttpCacheEntry, url: string): TransportResponse {
+  return createTransportResponse({
+    url,
+    status: entry.status,
+    statusText: entry.statusText,
+    headers: entry.headers,
+    body: entry.body,
+  });
+}
+
+/**
+ * Copy the headers of a response into a record with lowercase names
+ */
+function readHeaders(response: TransportResponse): Record<string, string> {
+  const headers: Record<string, string> = {};
+  const source = response.headers as {
+    get(name: string): string | null;
+    forEach?: (callback: (value: string, name: string) => void) => void;
+  };
+
+  if (typeof source.forEach === "function") {
+    source.forEach((value, name) => {
+      headers[name.toLowerCase()] = value;
+    });
+    return headers;
+  }
+
+  for (const name of STORED_HEADERS) {
+    const value = source.get(name);
+    if (value !== null) {
+      headers[name] = value;
+    }
+  }
+
+  return headers;
+}
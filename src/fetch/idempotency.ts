@@ -0,0 +1,78 @@
+import type { HTTPMethod, IdempotencyConfig, IdempotencyOption } from "../types";
+
+/**
+ * Idempotency policy with every option resolved
+ */
+export type IdempotencyPolicy = Required<IdempotencyConfig>;
+
+/**
+ * Default idempotency policy
+ */
+const DEFAULT_IDEMPOTENCY: IdempotencyPolicy = {
+  header: "Idempotency-Key",
+  methods: ["POST", "PATCH"],
+  generateKey: generateIdempotencyKey,
+};
+
+/**
+ * Resolve the effective idempotency policy from the global and endpoint options
+ *
+ * `false` on the endpoint disables idempotency keys, `true` enables them with
+ * the global settings. Object options are merged on top of each other.
+ *
+ * @param globalOption - Idempotency option from FetchConfig
+ * @param endpointOption - Idempotency option from the endpoint or request
+ * @returns Resolved policy, or undefined when no key is sent
+ *
+ * @example
+ * resolveIdempotency(true, { header: "X-Request-Id" })
+ * // { header: "X-Request-Id", methods: ["POST", "PATCH"], generateKey: ... }
+ * resolveIdempotency(true, false) // undefined
+ */
+export function resolveIdempotency(
+  globalOption?: IdempotencyOption,
+  endpointOption?: IdempotencyOption
+): IdempotencyPolicy | undefined {
+  const option = endpointOption ?? globalOption;
+  if (!option) {
+    return undefined;
+  }
+
+  return {
+    ...DEFAULT_IDEMPOTENCY,
+    ...(typeof globalOption === "object" && globalOption),
+    ...(typeof endpointOption === "object" && endpointOption),
+  };
+}
+
+/**
+ * Check whether requests with the given method carry an idempotency key
+ *
+ * @param policy - Resolved idempotency policy
+ * @param method - HTTP method of the request
+ */
+export function requiresIdempotencyKey(
+  policy: IdempotencyPolicy | undefined,
+  method: string
+): policy is IdempotencyPolicy {
+  return !!policy && policy.methods.includes(method as HTTPMethod);
+}
+
+/**
+ * Generate a random idempotency key
+ *
+ * Uses crypto.randomUUID where available, and a random v4-style UUID
+ * otherwise.
+ *
+ * @returns Random UUID
+ */
+export function generateIdempotencyKey(): string {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return crypto.randomUUID();
+  }
+
+  return "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, (char) => {
+    const random = (Math.random() * 16) | 0;
+    return (char === "x" ? random : (random & 0x3) | 0x8).toString(16);
+  });
+}
@@ -1 +1,26 @@
 export { createFetcher } from "./createFetcher";
+export {
+  fetchTransport,
+  createXHRTransport,
+  createMemoryTransport,
+} from "./transports";
+export {
+  jsonCodec,
+  isoDateCodec,
+  bigIntCodec,
+  createBigIntCodec,
+  superjsonCodec,
+} from "./codecs";
+export type { BigIntCodecOptions } from "./codecs";
+export { createScheduler } from "./scheduler";
+export { createCircuitBreaker } from "./circuitBreaker";
+export { noopTracer, createMemoryTracer } from "./tracing";
+export type { FinishedSpan, MemoryTracer } from "./tracing";
+export { createMemoryHttpCacheStore } from "./httpCache";
+export type { MemoryHttpCacheStoreOptions } from "./httpCache";
+export type {
+  XHRTransportOptions,
+  MemoryTransport,
+  MemoryTransportHandler,
+  MemoryTransportResponse,
+} from "./transports";
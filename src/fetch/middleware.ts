@@ -0,0 +1,128 @@
+import type {
+  FetchConfig,
+  Middleware,
+  MiddlewareContext,
+  TransportResponse,
+} from "../types";
+
+/**
+ * Adapt the legacy beforeRequest/afterResponse interceptors to a middleware
+ *
+ * @param config - Fetch configuration holding the interceptors
+ * @returns Middleware running the interceptors, or undefined if none are set
+ */
+export function createInterceptorMiddleware(
+  config: Pick<FetchConfig, "beforeRequest" | "afterResponse">
+): Middleware | undefined {
+  const { beforeRequest, afterResponse } = config;
+
+  if (!beforeRequest && !afterResponse) {
+    return undefined;
+  }
+
+  return {
+    onRequest: beforeRequest
+      ? async (context) => ({ init: await beforeRequest(context.init) })
+      : undefined,
+    onResponse: afterResponse
+      ? (response) => afterResponse(response)
+      : undefined,
+  };
+}
+
+/**
+ * Run the onRequest handlers in order
+ *
+ * Each handler sees the URL and RequestInit produced by the previous one and
+ * may replace either of them.
+ *
+ * @param middleware - Ordered middleware chain
+ * @param context - Initial request context
+ * @returns Context with the final URL and RequestInit
+ */
+export async function runRequestMiddleware(
+  middleware: Middleware[],
+  context: MiddlewareContext
+): Promise<MiddlewareContext> {
+  let current = context;
+
+  for (const entry of middleware) {
+    if (!entry.onRequest) {
+      continue;
+    }
+
+    const result = await entry.onRequest(current);
+    if (result) {
+      current = {
+        ...current,
+        url: result.url ?? current.url,
+        init: result.init ?? current.init,
+      };
+    }
+  }
+
+  return current;
+}
+
+/**
+ * Run the onResponse handlers in reverse order
+ *
+ * The last middleware sees the response first, so the chain unwinds like
+ * nested wrappers around the transport.
+ *
+ * @param middleware - Ordered middleware chain
+ * @param response - Response returned by the transport
+ * @param context - Final request context
+ * @returns Response after all handlers ran
+ */
+export async function runResponseMiddleware(
+  middleware: Middleware[],
+  response: TransportResponse,
+  context: MiddlewareContext
+): Promise<TransportResponse> {
+  let current = response;
+
+  for (let i = middleware.length - 1; i >= 0; i--) {
+    const { onResponse } = middleware[i];
+    if (!onResponse) {
+      continue;
+    }
+
+    current = (await onResponse(current, context)) ?? current;
+  }
+
+  return current;
+}
+
+/**
+ * Run the onError handlers in reverse order until one recovers
+ *
+ * A handler recovers from the error by returning a response, which is then
+ * used as if the transport had returned it. If no handler recovers, the
+ * original error is rethrown.
+ *
+ * @param middleware - Ordered middleware chain
+ * @param error - Error thrown while sending the request
+ * @param context - Final request context
+ * @returns Response provided by the recovering handler
+ * @throws The original error if no handler recovers
+ */
+export async function runErrorMiddleware(
+  middleware: Middleware[],
+  error: unknown,
+  context: MiddlewareContext
+): Promise<TransportResponse> {
+  for (let i = middleware.length - 1; i >= 0; i--) {
+    const { onError } = middleware[i];
+    if (!onError) {
+      continue;
+    }
+
+    const response = await onError(error, context);
+    if (response) {
+      return response;
+    }
+  }
+
+  throw error;
+}
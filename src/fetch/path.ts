@@ -0,0 +1,173 @@
+/**
+ * Parameter declared in a path template
+ */
+export type PathParam = {
+  /** Parameter name */
+  name: string;
+  /** Whether the parameter may be omitted (`:name?`) */
+  optional: boolean;
+  /** Whether the parameter spans several segments (`*name`) */
+  wildcard: boolean;
+};
+
+/**
+ * Matches `:name`, `:name?`, `*name` and `{name}` placeholders with their
+ * leading slash, if any
+ */
+const PARAM_PATTERN =
+  /(\/?)(?::([a-zA-Z_]\w*)(\?)?|\*([a-zA-Z_]\w*)|\{([a-zA-Z_]\w*)\})/g;
+
+/**
+ * Extract the parameters declared in a path template
+ *
+ * @param path - Path template with :param, :param?, *param or {param} placeholders
+ * @returns Parameters in order of appearance, each name listed once
+ *
+ * @example
+ * extractPathParams("/users/:userId/posts/{postId}")
+ * // [{ name: "userId", ... }, { name: "postId", ... }]
+ * extractPathParams("/files/:id?") // [{ name: "id", optional: true, wildcard: false }]
+ * extractPathParams("/files/*path") // [{ name: "path", optional: false, wildcard: true }]
+ */
+export function extractPathParams(path: string): PathParam[] {
+  const params = new Map<string, PathParam>();
+
+  for (const match of path.matchAll(PARAM_PATTERN)) {
+    const [, , name, optional, wildcard, braced] = match;
+    const paramName = name ?? wildcard ?? braced;
+
+    if (!params.has(paramName)) {
+      params.set(paramName, {
+        name: paramName,
+        optional: optional === "?",
+        wildcard: wildcard !== undefined,
+      });
+    }
+  }
+
+  return [...params.values()];
+}
+
+/**
+ * Replace path parameters with URL-encoded values
+ *
+ * Every occurrence of a parameter is replaced. Omitted optional parameters
+ * are removed along with their leading slash, and wildcard values keep their
+ * slashes while each segment is encoded.
+ *
+ * @param path - Path template with :param, :param?, *param or {param} placeholders
+ * @param params - Object containing parameter values
+ * @returns Path with parameters replaced
+ * @throws Error if a required parameter is missing, or if a value or wildcard
+ * segment is a `.` or `..` dot segment, which URL resolution would collapse
+ *
+ * @example
+ * replacePath("/users/:id", { id: 123 }) // "/users/123"
+ * replacePath("/users/{id}", { id: "a/b" }) // "/users/a%2Fb"
+ * replacePath("/files/:id?", {}) // "/files"
+ * replacePath("/files/*path", { path: "docs/read me.md" }) // "/files/docs/read%20me.md"
+ */
+export function replacePath(
+  path: string,
+  params: Record<string, string | number | undefined> = {}
+): string {
+  // Validate all required parameters are provided
+  for (const param of extractPathParams(path)) {
+    if (!param.optional && params[param.name] === undefined) {
+      throw new Error(`Missing required path parameter: ${param.name}`);
+    }
+  }
+
+  return path.replace(
+    PARAM_PATTERN,
+    (
+      _match,
+      slash: string,
+      name: string | undefined,
+      optional: string | undefined,
+      wildcard: string | undefined,
+      braced: string | undefined
+    ) => {
+      const paramName = (name ?? wildcard ?? braced) as string;
+      const value = params[paramName];
+
+      // Drop omitted optional parameters together with their leading slash
+      if (value === undefined && optional) {
+        return "";
+      }
+
+      // Encode each segment of wildcard values, keeping the slashes
+      const segments =
+        wildcard !== undefined ? String(value).split("/") : [String(value)];
+
+      if (segments.some(isDotSegment)) {
+        throw new Error(`Invalid path parameter: ${paramName}`);
+      }
+
+      return slash + segments.map(encodeURIComponent).join("/");
+    }
+  );
+}
+
+/**
+ * Whether a segment is `.` or `..`, once percent-decoded (`%2e%2e`)
+ */
+function isDotSegment(segment: string): boolean {
+  const decoded = segment.replace(/%2e/gi, ".");
+  return decoded === "." || decoded === "..";
+}
+
+/**
+ * Matches URLs with a scheme, such as `https://` or `blob:`
+ */
+const ABSOLUTE_URL_PATTERN = /^[a-zA-Z][a-zA-Z\d+.-]*:/;
+
+/**
+ * Origin used to resolve base URLs without one
+ */
+const PLACEHOLDER_ORIGIN = "http://placeholder";
+
+/**
+ * Join a base URL and a request path
+ *
+ * The path is resolved against the base URL with the URL API, always below
+ * the path of the base URL, whether or not either side has a slash. Base URLs
+ * may be absolute, protocol-relative (`//api.example.com`) or relative to the
+ * current origin (`/api`). Absolute paths are returned as they are.
+ *
+ * @param baseURL - Base URL, possibly empty
+ * @param path - Request path with its query string
+ * @returns Joined URL
+ *
+ * @example
+ * joinURL("https://api.example.com/v1/", "/users") // "https://api.example.com/v1/users"
+ * joinURL("https://api.example.com/v1", "users") // "https://api.example.com/v1/users"
+ * joinURL("/api", "/users?page=1") // "/api/users?page=1"
+ * joinURL("", "/users") // "/users"
+ */
+export function joinURL(baseURL: string, path: string): string {
+  if (!baseURL || ABSOLUTE_URL_PATTERN.test(path)) {
+    return path;
+  }
+
+  // Resolve the path below the base path instead of replacing it
+  const base = baseURL.endsWith("/") ? baseURL : `${baseURL}/`;
+  const relativePath = path.replace(/^\/+/, "");
+
+  if (ABSOLUTE_URL_PATTERN.test(base)) {
+    return new URL(relativePath, base).href;
+  }
+
+  if (base.startsWith("//")) {
+    return new URL(relativePath, `http:${base}`).href.slice("http:".length);
+  }
+
+  // Relative base URLs are resolved against a placeholder origin
+  const url = new URL(
+    relativePath,
+    PLACEHOLDER_ORIGIN + (base.startsWith("/") ? base : `/${base}`)
+  );
+  const resolved = url.pathname + url.search + url.hash;
+
+  return base.startsWith("/") ? resolved : resolved.slice(1);
+}
@@ -0,0 +1,220 @@
+import type {
+  QuerySerializerConfig,
+  QuerySerializerOption,
+} from "../types";
+
+/**
+ * Resolve the effective query serializer from the global and endpoint options
+ *
+ * Endpoint options take precedence over the global ones. A string option is
+ * shorthand for `{ arrayFormat }`, object options are merged on top of each
+ * other.
+ *
+ * @param globalOption - Serializer option from FetchConfig
+ * @param endpointOption - Serializer option from the endpoint or request
+ * @returns Resolved serializer configuration
+ *
+ * @example
+ * resolveQuerySerializer("comma", { dateFormat: "iso" })
+ * // { arrayFormat: "comma", dateFormat: "iso" }
+ */
+export function resolveQuerySerializer(
+  globalOption?: QuerySerializerOption,
+  endpointOption?: QuerySerializerOption
+): QuerySerializerConfig {
+  return {
+    ...normalizeQuerySerializerOption(globalOption),
+    ...normalizeQuerySerializerOption(endpointOption),
+  };
+}
+
+/**
+ * Build URL query string from query parameters object
+ *
+ * @param query - Query parameters object
+ * @param options - Serializer configuration for arrays, nested objects and dates
+ * @returns URL-encoded query string (without leading '?')
+ *
+ * @example
+ * buildQueryString({ page: 1, search: "test" }) // "page=1&search=test"
+ * buildQueryString({ tags: ["a", "b"] }) // "tags=a&tags=b"
+ * buildQueryString({ tags: ["a", "b"] }, { arrayFormat: "brackets" }) // "tags%5B%5D=a&tags%5B%5D=b"
+ * buildQueryString({ filter: { age: { gte: 18 } } }, { objectFormat: "deepObject" }) // "filter%5Bage%5D%5Bgte%5D=18"
+ * buildQueryString({ name: "John Doe" }) // "name=John+Doe"
+ */
+export function buildQueryString(
+  query: unknown,
+  options: QuerySerializerConfig = {}
+): string {
+  if (!query || typeof query !== "object") {
+    return "";
+  }
+
+  const params = new URLSearchParams();
+
+  for (const [key, value] of Object.entries(query)) {
+    appendValue(params, key, value, options);
+  }
+
+  return params.toString();
+}
+
+/**
+ * Normalize query parameters into the form they are serialized in
+ *
+ * Keys are sorted, null and undefined values are dropped and dates are
+ * encoded the same way as in the URL, so that two queries producing the same
+ * query string produce the same query key.
+ *
+ * @param query - Query parameters object
+ * @param options - Serializer configuration used for the request
+ * @returns Normalized query parameters
+ *
+ * @example
+ * normalizeQuery({ to: new Date(0), page: 1, q: null }, { dateFormat: "iso" })
+ * // { page: 1, to: "1970-01-01T00:00:00.000Z" }
+ */
+export function normalizeQuery(
+  query: Record<string, unknown>,
+  options: QuerySerializerConfig = {}
+): Record<string, unknown> {
+  const normalized: Record<string, unknown> = {};
+
+  for (const key of Object.keys(query).sort()) {
+    const value = query[key];
+    if (value !== undefined && value !== null) {
+      normalized[key] = normalizeValue(value, options);
+    }
+  }
+
+  return normalized;
+}
+
+/**
+ * Normalize a single query value, see normalizeQuery
+ */
+function normalizeValue(
+  value: unknown,
+  options: QuerySerializerConfig
+): unknown {
+  if (value instanceof Date) {
+    return encodeDate(value, options);
+  }
+
+  if (Array.isArray(value)) {
+    return value
+      .filter((item) => item !== undefined && item !== null)
+      .map((item) => normalizeValue(item, options));
+  }
+
+  // Nested objects are only expanded into keys in the deepObject format,
+  // JSON-encoded objects are hashed as they are by TanStack Query
+  if (
+    typeof value === "object" &&
+    value !== null &&
+    options.objectFormat === "deepObject"
+  ) {
+    return normalizeQuery(value as Record<string, unknown>, options);
+  }
+
+  return value;
+}
+
+/**
+ * Append a query value under the given key, expanding arrays and nested objects
+ */
+function appendValue(
+  params: URLSearchParams,
+  key: string,
+  value: unknown,
+  options: QuerySerializerConfig
+): void {
+  if (value === undefined || value === null) {
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    appendArray(params, key, value, options);
+  } else if (
+    typeof value === "object" &&
+    !(value instanceof Date) &&
+    options.objectFormat === "deepObject"
+  ) {
+    // Expand nested objects into a[b][c]= keys
+    for (const [childKey, child] of Object.entries(value)) {
+      appendValue(params, `${key}[${childKey}]`, child, options);
+    }
+  } else {
+    params.append(key, encodeScalar(value, options));
+  }
+}
+
+/**
+ * Append the items of an array in the configured array format
+ */
+function appendArray(
+  params: URLSearchParams,
+  key: string,
+  items: unknown[],
+  options: QuerySerializerConfig
+): void {
+  const values = items.filter((item) => item !== undefined && item !== null);
+
+  switch (options.arrayFormat) {
+    case "comma":
+      if (values.length > 0) {
+        params.append(
+          key,
+          values.map((item) => encodeScalar(item, options)).join(",")
+        );
+      }
+      break;
+    case "brackets":
+      values.forEach((item) => appendValue(params, `${key}[]`, item, options));
+      break;
+    case "indices":
+      values.forEach((item, index) =>
+        appendValue(params, `${key}[${index}]`, item, options)
+      );
+      break;
+    default:
+      // Repeat the key for every item
+      values.forEach((item) => appendValue(params, key, item, options));
+  }
+}
+
+/**
+ * Encode a value that is not expanded into several keys
+ */
+function encodeScalar(value: unknown, options: QuerySerializerConfig): string {
+  if (value instanceof Date) {
+    return encodeDate(value, options);
+  }
+
+  // Handle nested objects by JSON stringifying them
+  if (typeof value === "object" && value !== null) {
+    return JSON.stringify(value);
+  }
+
+  return String(value);
+}
+
+/**
+ * Encode a date in the configured date format
+ */
+function encodeDate(date: Date, options: QuerySerializerConfig): string {
+  return options.dateFormat === "iso" ? date.toISOString() : String(date);
+}
+
+/**
+ * Expand the string shorthand of a serializer option
+ */
+function normalizeQuerySerializerOption(
+  option?: QuerySerializerOption
+): QuerySerializerConfig {
+  if (option === undefined) {
+    return {};
+  }
+
+  return typeof option === "string" ? { arrayFormat: option } : option;
+}
@@ -0,0 +1,281 @@
+import type { RetryConfig, RetryOption, TransportResponse } from "../types";
+
+/**
+ * Fully resolved retry policy with every option filled in
+ */
+export type RetryPolicy = Required<RetryConfig>;
+
+/**
+ * Failed attempt about to be retried
+ */
+export type RetryAttempt = {
+  /** Number of the attempt that failed (starting at 1) */
+  attempt: number;
+  /** Delay in milliseconds before the next attempt */
+  delay: number;
+  /** Status of the failed attempt, when the server responded */
+  status?: number;
+  /** Error of the failed attempt, when it did not get a response */
+  error?: unknown;
+};
+
+/**
+ * Status codes retried by default: request timeout, rate limiting and
+ * transient gateway failures
+ */
+export const DEFAULT_RETRY_STATUSES = [408, 429, 502, 503, 504];
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  attempts: 3,
+  baseDelay: 300,
+  maxDelay: 10000,
+  jitter: true,
+  statuses: DEFAULT_RETRY_STATUSES,
+  respectRetryAfter: true,
+  retryNonIdempotent: false,
+};
+
+/**
+ * Resolve the effective retry policy from the global and endpoint options
+ *
+ * Endpoint options take precedence over the global ones. `false` disables
+ * retries, `true` enables the defaults and a number sets the attempt count.
+ * Object options are merged on top of each other.
+ *
+ * @param globalOption - Retry option from FetchConfig
+ * @param endpointOption - Retry option from the endpoint or request
+ * @returns Resolved policy, or undefined when retries are disabled
+ *
+ * @example
+ * resolveRetryPolicy(3, undefined) // { attempts: 3, baseDelay: 300, ... }
+ * resolveRetryPolicy({ attempts: 5 }, false) // undefined
+ */
+export function resolveRetryPolicy(
+  globalOption?: RetryOption,
+  endpointOption?: RetryOption
+): RetryPolicy | undefined {
+  if (endpointOption === false) {
+    return undefined;
+  }
+
+  const globalConfig = normalizeRetryOption(globalOption);
+  const endpointConfig = normalizeRetryOption(endpointOption);
+
+  if (!globalConfig && !endpointConfig) {
+    return undefined;
+  }
+
+  const policy: RetryPolicy = {
+    ...DEFAULT_RETRY_POLICY,
+    ...globalConfig,
+    ...endpointConfig,
+  };
+
+  return policy.attempts > 1 ? policy : undefined;
+}
+
+/**
+ * Normalize the shorthand forms of a retry option into a RetryConfig
+ */
+function normalizeRetryOption(option?: RetryOption): RetryConfig | undefined {
+  if (option === undefined || option === false) {
+    return undefined;
+  }
+
+  if (option === true) {
+    return {};
+  }
+
+  if (typeof option === "number") {
+    return { attempts: option };
+  }
+
+  return option;
+}
+
+/**
+ * Check whether requests with the given method may be retried
+ *
+ * POST and PATCH are not idempotent, so they are only retried when the
+ * policy explicitly opts in.
+ *
+ * @param method - HTTP method of the request
+ * @param policy - Resolved retry policy
+ * @returns True if the method can be retried
+ */
+export function isRetryableMethod(method: string, policy: RetryPolicy): boolean {
+  const upperMethod = method.toUpperCase();
+
+  if (upperMethod === "POST" || upperMethod === "PATCH") {
+    return policy.retryNonIdempotent;
+  }
+
+  return true;
+}
+
+/**
+ * Compute the delay before the next attempt
+ *
+ * Uses exponential backoff (`baseDelay * 2^(attempt - 1)`) capped at
+ * `maxDelay`. With jitter enabled the delay is randomized between half and
+ * the full backoff value. A valid Retry-After header overrides the backoff.
+ *
+ * @param attempt - Number of the attempt that just failed (starting at 1)
+ * @param policy - Resolved retry policy
+ * @param retryAfter - Raw Retry-After header value, if any
+ * @returns Delay in milliseconds
+ *
+ * @example
+ * getRetryDelay(1, { ...policy, baseDelay: 100, jitter: false }) // 100
+ * getRetryDelay(3, { ...policy, baseDelay: 100, jitter: false }) // 400
+ * getRetryDelay(1, policy, "2") // 2000
+ */
+export function getRetryDelay(
+  attempt: number,
+  policy: RetryPolicy,
+  retryAfter?: string | null
+): number {
+  if (policy.respectRetryAfter && retryAfter) {
+    const retryAfterDelay = parseRetryAfter(retryAfter);
+    if (retryAfterDelay !== undefined) {
+      return Math.min(retryAfterDelay, policy.maxDelay);
+    }
+  }
+
+  const backoff = Math.min(
+    policy.baseDelay * Math.pow(2, attempt - 1),
+    policy.maxDelay
+  );
+
+  if (!policy.jitter) {
+    return backoff;
+  }
+
+  return backoff / 2 + Math.random() * (backoff / 2);
+}
+
+/**
+ * Parse a Retry-After header value into milliseconds
+ *
+ * Supports both the delay-seconds and the HTTP-date forms.
+ *
+ * @param value - Raw header value
+ * @returns Delay in milliseconds, or undefined if the value is invalid
+ *
+ * @example
+ * parseRetryAfter("5") // 5000
+ * parseRetryAfter("Wed, 21 Oct 2015 07:28:00 GMT") // ms until that date (0 if past)
+ */
+export function parseRetryAfter(value: string): number | undefined {
+  const trimmed = value.trim();
+
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+
+  return Math.max(0, date - Date.now());
+}
+
+/**
+ * Wait for the given delay, rejecting early if the signal is aborted
+ *
+ * @param ms - Delay in milliseconds
+ * @param signal - Optional AbortSignal that cancels the wait
+ */
+export function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Execute a request with the given retry policy
+ *
+ * Network errors and responses with a retryable status are retried until the
+ * attempt limit is reached. Requests cancelled through the signal are never
+ * retried. The last response (or error) is returned to the caller unchanged.
+ *
+ * @param send - Function performing a single attempt
+ * @param method - HTTP method of the request
+ * @param policy - Resolved retry policy, or undefined to disable retries
+ * @param signal - AbortSignal of the request
+ * @param onRetry - Called before waiting for each retry
+ * @returns Response of the last attempt
+ */
+export async function withRetry(
+  send: () => Promise<TransportResponse>,
+  method: string,
+  policy: RetryPolicy | undefined,
+  signal?: AbortSignal | null,
+  onRetry?: (retry: RetryAttempt) => void
+): Promise<TransportResponse> {
+  if (!policy || !isRetryableMethod(method, policy)) {
+    return send();
+  }
+
+  for (let attempt = 1; ; attempt++) {
+    const isLastAttempt = attempt >= policy.attempts;
+    let response: TransportResponse;
+
+    try {
+      response = await send();
+    } catch (error) {
+      if (isLastAttempt || signal?.aborted) {
+        throw error;
+      }
+
+      const delay = getRetryDelay(attempt, policy);
+      onRetry?.({ attempt, delay, error });
+      await sleep(delay, signal);
+      continue;
+    }
+
+    if (
+      response.ok ||
+      isLastAttempt ||
+      !policy.statuses.includes(response.status)
+    ) {
+      return response;
+    }
+
+    const delay = getRetryDelay(
+      attempt,
+      policy,
+      response.headers?.get("retry-after")
+    );
+    onRetry?.({ attempt, delay, status: response.status });
+    discardBody(response);
+    await sleep(delay, signal);
+  }
+}
+
+/**
+ * Cancel the body of a response that is thrown away, releasing its connection
+ *
+ * Bodies that are already locked or consumed are left alone.
+ */
+export function discardBody(response: TransportResponse): void {
+  if (response.body && !response.body.locked) {
+    response.body.cancel().catch(() => undefined);
+  }
+}
@@ -0,0 +1,169 @@
+import type {
+  RequestPriority,
+  ScheduledRequest,
+  Scheduler,
+  SchedulerConfig,
+} from "../types";
+
+/**
+ * Priority lanes in the order they are drained
+ */
+const PRIORITIES: RequestPriority[] = ["high", "normal", "low"];
+
+/**
+ * Task waiting for a slot
+ */
+type QueuedTask = {
+  start: () => void;
+};
+
+/**
+ * Requests sharing a concurrency limit
+ */
+type Pool = {
+  active: number;
+  queues: Record<RequestPriority, QueuedTask[]>;
+};
+
+/**
+ * Create a scheduler limiting concurrent requests per host or service
+ *
+ * Requests beyond the limit wait in priority lanes: `high` requests start
+ * before `normal` ones, which start before `low` ones. Requests whose signal
+ * aborts while queued are removed from the queue.
+ *
+ * @param config - Concurrency limit and grouping of requests
+ * @returns Scheduler to pass to FetchConfig.scheduler
+ *
+ * @example
+ * ```typescript
+ * const scheduler = createScheduler({ maxConcurrent: 6 });
+ * const api = createQueryAPI(config, { baseURL, scheduler });
+ *
+ * // Debugging
+ * console.log(scheduler.getQueueDepth(), scheduler.getActiveCount());
+ * ```
+ */
+export function createScheduler(config: SchedulerConfig): Scheduler {
+  const { maxConcurrent, keyBy = "host" } = config;
+
+  if (!Number.isInteger(maxConcurrent) || maxConcurrent < 1) {
+    throw new Error(
+      `Invalid scheduler configuration: "maxConcurrent" must be a positive integer (got ${maxConcurrent})`
+    );
+  }
+
+  const pools = new Map<string, Pool>();
+
+  const getKey = (request: ScheduledRequest): string => {
+    if (typeof keyBy === "function") {
+      return keyBy(request);
+    }
+
+    return keyBy === "service" ? request.service ?? "" : getHost(request.url);
+  };
+
+  // Start queued tasks while slots are free, dropping idle pools
+  const drain = (key: string, pool: Pool) => {
+    while (pool.active < maxConcurrent) {
+      const lane = PRIORITIES.find(
+        (priority) => pool.queues[priority].length > 0
+      );
+      if (!lane) {
+        break;
+      }
+      pool.queues[lane].shift()!.start();
+    }
+
+    if (pool.active === 0 && countQueued(pool) === 0) {
+      pools.delete(key);
+    }
+  };
+
+  const count = (key: string | undefined, counter: (pool: Pool) => number) => {
+    if (key !== undefined) {
+      const pool = pools.get(key);
+      return pool ? counter(pool) : 0;
+    }
+
+    let total = 0;
+    for (const pool of pools.values()) {
+      total += counter(pool);
+    }
+    return total;
+  };
+
+  return {
+    schedule(request, task, signal) {
+      const key = getKey(request);
+      let pool = pools.get(key);
+      if (!pool) {
+        pool = { active: 0, queues: { high: [], normal: [], low: [] } };
+        pools.set(key, pool);
+      }
+      const currentPool = pool;
+
+      return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+          reject(signal.reason);
+          drain(key, currentPool);
+          return;
+        }
+
+        const queue = currentPool.queues[request.priority];
+
+        const onAbort = () => {
+          const index = queue.indexOf(queued);
+          if (index !== -1) {
+            queue.splice(index, 1);
+            reject(signal?.reason);
+            drain(key, currentPool);
+          }
+        };
+
+        const queued: QueuedTask = {
+          start: () => {
+            signal?.removeEventListener("abort", onAbort);
+            currentPool.active++;
+
+            task()
+              .then(resolve, reject)
+              .finally(() => {
+                currentPool.active--;
+                drain(key, currentPool);
+              });
+          },
+        };
+
+        signal?.addEventListener("abort", onAbort, { once: true });
+        queue.push(queued);
+        drain(key, currentPool);
+      });
+    },
+
+    getQueueDepth: (key) => count(key, countQueued),
+
+    getActiveCount: (key) => count(key, (pool) => pool.active),
+  };
+}
+
+/**
+ * Count the tasks waiting in every lane of a pool
+ */
+function countQueued(pool: Pool): number {
+  return PRIORITIES.reduce(
+    (total, priority) => total + pool.queues[priority].length,
+    0
+  );
+}
+
+/**
+ * Read the host of a URL, relative URLs sharing the page's host
+ */
+function getHost(url: string): string {
+  try {
+    return new URL(url, "http://localhost").host;
+  } catch {
+    return "";
+  }
+}
@@ -0,0 +1,124 @@
+import type { TransportResponse } from "../types";
+import { TimeoutError, type RequestErrorContext } from "../errors";
+
+/**
+ * Race a promise against the timer of a request
+ */
+type TimeoutRace = <T>(promise: Promise<T>) => Promise<T>;
+
+/**
+ * Timers of the responses received under a timeout, read by readBody
+ */
+const bodyTimeouts = new WeakMap<TransportResponse, TimeoutRace>();
+
+/**
+ * Run a request with a timeout combined with the caller's AbortSignal
+ *
+ * The request receives a signal that aborts when either the caller's signal
+ * aborts or the timer fires. When the timer wins, the request rejects with a
+ * TimeoutError instead of the underlying abort error. The timer keeps running
+ * once the headers arrive, so that reading the body with readBody rejects the
+ * same way. The function stopping the timer is pushed to `releases`: the
+ * caller runs it once the response is read or discarded. Without a timeout
+ * the caller's signal is passed through untouched.
+ *
+ * @param send - Function performing the request with the combined signal
+ * @param timeout - Timeout in milliseconds, or undefined for no timeout
+ * @param signal - Optional AbortSignal from the caller (e.g. TanStack Query)
+ * @param context - Request details attached to the TimeoutError
+ * @param releases - Functions stopping the timers, run by the caller
+ * @returns Response of the transport
+ *
+ * @example
+ * ```typescript
+ * const releases: (() => void)[] = [];
+ * try {
+ *   const response = await withTimeout(
+ *     (signal) => transport({ ...request, signal }),
+ *     5000,
+ *     request.signal,
+ *     { url: request.url, method: request.method },
+ *     releases
+ *   );
+ *   return await readBody(response, () => response.json());
+ * } finally {
+ *   releases.forEach((release) => release());
+ * }
+ * ```
+ */
+export async function withTimeout(
+  send: (signal?: AbortSignal | null) => Promise<TransportResponse>,
+  timeout: number | undefined,
+  signal?: AbortSignal | null,
+  context?: RequestErrorContext,
+  releases?: (() => void)[]
+): Promise<TransportResponse> {
+  if (timeout === undefined || timeout <= 0) {
+    return send(signal);
+  }
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal?.reason);
+
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener("abort", onAbort, { once: true });
+  }
+
+  // Reject even if the transport ignores the abort signal
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeoutPromise = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      // Settle first, so that the race is won by the TimeoutError rather
+      // than by the abort error of the request
+      const timeoutError = new TimeoutError(timeout, context);
+      reject(timeoutError);
+      controller.abort(timeoutError);
+    }, timeout);
+  });
+  // Bodies that are never read leave the timer to expire unobserved
+  timeoutPromise.catch(() => undefined);
+
+  const release = () => {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  };
+
+  let response: TransportResponse;
+  try {
+    response = await Promise.race([send(controller.signal), timeoutPromise]);
+  } catch (error) {
+    release();
+    throw error;
+  }
+
+  releases?.push(release);
+  bodyTimeouts.set(response, async (promise) => {
+    try {
+      return await Promise.race([promise, timeoutPromise]);
+    } finally {
+      release();
+    }
+  });
+
+  return response;
+}
+
+/**
+ * Read the body of a response under the timeout it was received with
+ *
+ * Responses received without a timeout, or created by middleware, are read
+ * as they are.
+ *
+ * @param response - Response of the transport
+ * @param read - Function reading the body
+ * @returns Result of the read
+ */
+export function readBody<T>(
+  response: TransportResponse,
+  read: () => Promise<T>
+): Promise<T> {
+  const race = bodyTimeouts.get(response);
+  return race ? race(read()) : read();
+}
@@ -0,0 +1,240 @@
+import type {
+  Span,
+  SpanAttributeValue,
+  SpanContext,
+  SpanStatus,
+  Tracer,
+  TracingConfig,
+} from "../types";
+
+/**
+ * Trace and span IDs of spans that are not recorded
+ */
+const INVALID_SPAN_CONTEXT: SpanContext = {
+  traceId: "0".repeat(32),
+  spanId: "0".repeat(16),
+  traceFlags: 0,
+};
+
+/**
+ * Tracer whose spans record nothing and are never propagated
+ *
+ * Used when no tracer is configured.
+ */
+export const noopTracer: Tracer = {
+  startSpan: () => ({
+    spanContext: () => INVALID_SPAN_CONTEXT,
+    setAttribute: () => undefined,
+    setStatus: () => undefined,
+    recordException: () => undefined,
+    end: () => undefined,
+  }),
+};
+
+/**
+ * Span recorded by the in-memory tracer once it ended
+ */
+export type FinishedSpan = {
+  name: string;
+  kind?: number;
+  traceId: string;
+  spanId: string;
+  attributes: Record<string, SpanAttributeValue>;
+  status: SpanStatus;
+  exceptions: (Error | string)[];
+  /** Start time in milliseconds since the epoch */
+  startTime: number;
+  /** End time in milliseconds since the epoch */
+  endTime: number;
+  /** Duration in milliseconds */
+  duration: number;
+};
+
+/**
+ * Tracer keeping finished spans in memory
+ */
+export type MemoryTracer = Tracer & {
+  /** Spans ended so far, in the order they ended */
+  getFinishedSpans: () => FinishedSpan[];
+  /** Forget the finished spans */
+  reset: () => void;
+};
+
+/**
+ * Create a tracer recording sampled spans in memory, for tests and debugging
+ *
+ * Every span starts a new trace with random IDs, so requests carry a valid
+ * `traceparent` header.
+ *
+ * @returns Tracer exposing the finished spans
+ *
+ * @example
+ * ```typescript
+ * const tracer = createMemoryTracer();
+ * const fetcher = createFetcher({ tracing: { tracer } });
+ *
+ * await fetcher('/users/:id', { method: 'GET', params: { id: 1 } });
+ * tracer.getFinishedSpans(); // [{ name: "GET /users/:id", attributes: { ... }, ... }]
+ * ```
+ */
+export function createMemoryTracer(): MemoryTracer {
+  let finished: FinishedSpan[] = [];
+
+  return {
+    startSpan(name, options = {}) {
+      const context: SpanContext = {
+        traceId: randomHex(16),
+        spanId: randomHex(8),
+        traceFlags: 1,
+      };
+      const attributes: Record<string, SpanAttributeValue> = {};
+      const exceptions: (Error | string)[] = [];
+      const startTime = Date.now();
+      let status: SpanStatus = { code: 0 };
+      let ended = false;
+
+      const setAttribute = (key: string, value: SpanAttributeValue) => {
+        attributes[key] = value;
+      };
+      for (const [key, value] of Object.entries(options.attributes ?? {})) {
+        if (value !== undefined) {
+          setAttribute(key, value);
+        }
+      }
+
+      const span: Span = {
+        spanContext: () => context,
+        setAttribute,
+        setStatus: (newStatus) => {
+          status = newStatus;
+        },
+        recordException: (exception) => {
+          exceptions.push(exception);
+        },
+        end: () => {
+          if (ended) {
+            return;
+          }
+          ended = true;
+
+          const endTime = Date.now();
+          finished.push({
+            name,
+            kind: options.kind,
+            ...context,
+            attributes,
+            status,
+            exceptions,
+            startTime,
+            endTime,
+            duration: endTime - startTime,
+          });
+        },
+      };
+
+      return span;
+    },
+
+    getFinishedSpans: () => [...finished],
+
+    reset: () => {
+      finished = [];
+    },
+  };
+}
+
+/**
+ * Format a span context as a W3C `traceparent` header value
+ *
+ * @param context - Context of the span the request belongs to
+ * @returns Header value, or undefined for spans that are not recorded
+ *
+ * @example
+ * formatTraceparent({ traceId: "4bf92f3577b34da6a3ce929d0e0e4736", spanId: "00f067aa0ba902b7", traceFlags: 1 })
+ * // "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01"
+ */
+export function formatTraceparent(context: SpanContext): string | undefined {
+  const { traceId, spanId, traceFlags } = context;
+
+  if (
+    !/^[0-9a-f]{32}$/.test(traceId) ||
+    !/^[0-9a-f]{16}$/.test(spanId) ||
+    /^0+$/.test(traceId) ||
+    /^0+$/.test(spanId)
+  ) {
+    return undefined;
+  }
+
+  const flags = (traceFlags & 0xff).toString(16).padStart(2, "0");
+  return `00-${traceId}-${spanId}-${flags}`;
+}
+
+/**
+ * Decide whether a request carries the `traceparent` header
+ *
+ * By default only same-origin requests do: relative URLs, and URLs with the
+ * origin of the current page, so that trace IDs are not sent to third-party
+ * hosts. A list of origins allows those origins instead.
+ *
+ * @param propagate - Propagation option of the tracing configuration
+ * @param url - Fully resolved request URL
+ * @returns True if the header is added to the request
+ *
+ * @example
+ * shouldPropagate(["https://api.example.com"], "https://api.example.com/users") // true
+ * shouldPropagate(undefined, "https://partner.example.com/feed") // false, unless served from that origin
+ */
+export function shouldPropagate(
+  propagate: TracingConfig["propagate"],
+  url: string
+): boolean {
+  if (typeof propagate === "boolean") {
+    return propagate;
+  }
+
+  if (typeof propagate === "function") {
+    return propagate(url);
+  }
+
+  const origin = getOrigin(url);
+  // Relative URLs are sent to the origin of the page
+  if (origin === undefined) {
+    return true;
+  }
+
+  return propagate
+    ? propagate.some((allowed) => (getOrigin(allowed) ?? allowed) === origin)
+    : origin === globalThis.location?.origin;
+}
+
+/**
+ * Origin of an absolute URL, or undefined for relative URLs
+ */
+function getOrigin(url: string): string | undefined {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Generate a random lowercase hex string of the given byte length
+ *
+ * Uses crypto.getRandomValues where available, and Math.random otherwise.
+ */
+function randomHex(bytes: number): string {
+  const values = new Uint8Array(bytes);
+
+  if (typeof crypto !== "undefined" && "getRandomValues" in crypto) {
+    crypto.getRandomValues(values);
+  } else {
+    for (let index = 0; index < bytes; index++) {
+      values[index] = (Math.random() * 256) | 0;
+    }
+  }
+
+  return Array.from(values, (value) =>
+    value.toString(16).padStart(2, "0")
+  ).join("");
+}
@@ -0,0 +1,296 @@
+import type {
+  Transport,
+  TransportRequest,
+  TransportResponse,
+} from "../types";
+
+/**
+ * Status texts used when a transport does not provide one
+ */
+const STATUS_TEXTS: Record<number, string> = {
+  200: "OK",
+  201: "Created",
+  202: "Accepted",
+  204: "No Content",
+  304: "Not Modified",
+  400: "Bad Request",
+  401: "Unauthorized",
+  403: "Forbidden",
+  404: "Not Found",
+  408: "Request Timeout",
+  409: "Conflict",
+  422: "Unprocessable Entity",
+  429: "Too Many Requests",
+  500: "Internal Server Error",
+  502: "Bad Gateway",
+  503: "Service Unavailable",
+  504: "Gateway Timeout",
+};
+
+/**
+ * Default transport backed by the global fetch function
+ *
+ * The global fetch is looked up on every request, so it can be replaced
+ * (e.g. by test mocks) after the fetcher has been created.
+ *
+ * @example
+ * ```typescript
+ * const fetcher = createFetcher({ transport: fetchTransport });
+ * ```
+ */
+export const fetchTransport: Transport = (request) => {
+  const { url, method, headers, body, signal, init } = request;
+
+  return fetch(url, { ...init, method, headers, body, signal });
+};
+
+/**
+ * Options for the XMLHttpRequest transport
+ */
+export type XHRTransportOptions = {
+  /** Send cookies with cross-origin requests */
+  withCredentials?: boolean;
+  /** Called as the request body is uploaded */
+  onUploadProgress?: (event: ProgressEvent, request: TransportRequest) => void;
+  /** Called as the response body is downloaded */
+  onDownloadProgress?: (
+    event: ProgressEvent,
+    request: TransportRequest
+  ) => void;
+};
+
+/**
+ * Creates a transport backed by XMLHttpRequest
+ *
+ * Useful in browsers when upload or download progress events are needed.
+ *
+ * @param options - Credentials mode and progress callbacks
+ * @returns Transport performing requests with XMLHttpRequest
+ *
+ * @example
+ * ```typescript
+ * const fetcher = createFetcher({
+ *   transport: createXHRTransport({
+ *     onUploadProgress: (event) => setProgress(event.loaded / event.total),
+ *   }),
+ * });
+ * ```
+ */
+export function createXHRTransport(
+  options: XHRTransportOptions = {}
+): Transport {
+  const { withCredentials, onUploadProgress, onDownloadProgress } = options;
+
+  return (request) =>
+    new Promise<TransportResponse>((resolve, reject) => {
+      const { url, method, headers, body, signal } = request;
+
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const xhr = new XMLHttpRequest();
+      xhr.open(method, url, true);
+
+      for (const [name, value] of Object.entries(headers)) {
+        xhr.setRequestHeader(name, value);
+      }
+
+      if (withCredentials !== undefined) {
+        xhr.withCredentials = withCredentials;
+      }
+
+      if (onUploadProgress && xhr.upload) {
+        xhr.upload.onprogress = (event) => onUploadProgress(event, request);
+      }
+
+      if (onDownloadProgress) {
+        xhr.onprogress = (event) => onDownloadProgress(event, request);
+      }
+
+      const onAbort = () => xhr.abort();
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      const cleanup = () => signal?.removeEventListener("abort", onAbort);
+
+      xhr.onload = () => {
+        cleanup();
+        resolve(
+          createTransportResponse({
+            url: xhr.responseURL || url,
+            status: xhr.status,
+            statusText: xhr.statusText,
+            headers: parseRawHeaders(xhr.getAllResponseHeaders()),
+            body: xhr.responseText,
+          })
+        );
+      };
+
+      xhr.onerror = () => {
+        cleanup();
+        reject(new TypeError("Network request failed"));
+      };
+
+      xhr.onabort = () => {
+        cleanup();
+        reject(signal?.reason ?? new Error("Request aborted"));
+      };
+
+      xhr.send((body ?? null) as XMLHttpRequestBodyInit | null);
+    });
+}
+
+/**
+ * Response returned by an in-memory transport handler
+ */
+export type MemoryTransportResponse = {
+  /** HTTP status code (default: 200) */
+  status?: number;
+  /** HTTP status text (default: derived from the status code) */
+  statusText?: string;
+  /** Response headers */
+  headers?: Record<string, string>;
+  /** Response body; non-string values are serialized as JSON */
+  body?: unknown;
+};
+
+/**
+ * Handler producing responses for the in-memory transport
+ */
+export type MemoryTransportHandler = (
+  request: TransportRequest
+) => MemoryTransportResponse | Promise<MemoryTransportResponse>;
+
+/**
+ * In-memory transport that also records every request it received
+ */
+export type MemoryTransport = Transport & {
+  /** Requests received so far, in order */
+  requests: TransportRequest[];
+};
+
+/**
+ * Creates an in-memory transport for tests and prototyping
+ *
+ * Requests never leave the process: the handler receives the normalized
+ * request and returns the status, headers and body to respond with.
+ *
+ * @param handler - Function producing a response for each request
+ * @returns Transport with a `requests` log for assertions
+ *
+ * @example
+ * ```typescript
+ * const transport = createMemoryTransport((request) =>
+ *   request.url.endsWith('/users/1')
+ *     ? { body: { id: 1, name: 'John' } }
+ *     : { status: 404 }
+ * );
+ *
+ * const fetcher = createFetcher({ transport });
+ * await fetcher('/users/:id', { method: 'GET', params: { id: 1 } });
+ * transport.requests; // [{ url: '/users/1', method: 'GET', ... }]
+ * ```
+ */
+export function createMemoryTransport(
+  handler: MemoryTransportHandler
+): MemoryTransport {
+  const requests: TransportRequest[] = [];
+
+  const transport = async (
+    request: TransportRequest
+  ): Promise<TransportResponse> => {
+    if (request.signal?.aborted) {
+      throw request.signal.reason;
+    }
+
+    requests.push(request);
+
+    const { status = 200, statusText, headers = {}, body } = await handler(
+      request
+    );
+
+    const isText = typeof body === "string" || body === undefined;
+    const hasContentType = Object.keys(headers).some(
+      (name) => name.toLowerCase() === "content-type"
+    );
+
+    return createTransportResponse({
+      url: request.url,
+      status,
+      statusText,
+      headers: {
+        ...(!isText && !hasContentType && { "content-type": "application/json" }),
+        ...headers,
+      },
+      body: isText ? (body as string | undefined) ?? "" : JSON.stringify(body),
+    });
+  };
+
+  return Object.assign(transport, { requests });
+}
+
+/**
+ * Build a Response-like object from a URL, status, headers and a text body
+ *
+ * @param init - URL, status, optional status text, headers and body text
+ * @returns Response-like object understood by the fetcher
+ */
+export function createTransportResponse(init: {
+  url: string;
+  status: number;
+  statusText?: string;
+  headers?: Record<string, string>;
+  body: string;
+}): TransportResponse {
+  const { url, status, statusText = STATUS_TEXTS[status] ?? "", body } = init;
+  const headers = new Headers(init.headers);
+
+  return {
+    url,
+    ok: status >= 200 && status < 300,
+    status,
+    statusText,
+    headers,
+    json: async () => JSON.parse(body),
+    text: async () => body,
+  };
+}
+
+/**
+ * Convert RequestInit headers into a plain record
+ *
+ * @param headers - Headers as a record, tuple array or Headers instance
+ * @returns Plain header record
+ */
+export function normalizeHeaders(headers?: HeadersInit): Record<string, string> {
+  if (!headers) {
+    return {};
+  }
+
+  if (headers instanceof Headers || Array.isArray(headers)) {
+    const record: Record<string, string> = {};
+    new Headers(headers).forEach((value, name) => {
+      record[name] = value;
+    });
+    return record;
+  }
+
+  return { ...headers };
+}
+
+/**
+ * Parse the raw header block returned by XMLHttpRequest
+ */
+function parseRawHeaders(raw: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  for (const line of raw.trim().split(/[\r\n]+/)) {
+    const index = line.indexOf(":");
+    if (index > 0) {
+      headers[line.slice(0, index).trim()] = line.slice(index + 1).trim();
+    }
+  }
+
+  return headers;
+}
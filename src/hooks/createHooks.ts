@@ -1,96 +1,134 @@
 import {
   useQuery,
   useMutation,
+  QueryClientContext,
   type UseQueryOptions,
   type UseQueryResult,
   type UseMutationOptions,
   type UseMutationResult,
 } from "@tanstack/react-query";
-import type { QueryClient } from "@tanstack/query-core";
+import { hashKey, type Query, type QueryClient } from "@tanstack/query-core";
+import { useContext } from "react";
 import type { z } from "zod";
 import type {
   APIConfig,
   EndpointConfig,
+  EndpointMeta,
+  FetchConfig,
   FetcherFunction,
-  ExtractParams,
+  InferParams,
   InferResponse,
   InferBody,
+  InferError,
+  ResponseMeta,
+  APIEventListener,
+  RequestPriority,
+  UnwrapOption,
 } from "../types";
 import type { QueryKeyFactory } from "../keys/createKeyFactory";
+import { extractPathParams } from "../fetch/path";
+import { emitEvent } from "../fetch/events";
+import {
+  requiresIdempotencyKey,
+  resolveIdempotency,
+  type IdempotencyPolicy,
+} from "../fetch/idempotency";
+import { getExpiresAt, resolveFreshness } from "../fetch/freshness";
 
 /**
  * Generated hooks type that creates useQuery or useMutation based on HTTP method
+ *
+ * Response data is typed with the global unwrap of FetchConfig (`TUnwrap`).
  */
-export type GeneratedHooks<TConfig extends APIConfig> = {
+export type GeneratedHooks<
+  TConfig extends APIConfig,
+  TUnwrap extends UnwrapOption | undefined = undefined
+> = {
   [Group in keyof TConfig]: TConfig[Group] extends EndpointConfig
     ? TConfig[Group]["method"] extends "GET"
       ? {
-          useQuery: UseQueryHook<TConfig[Group]>;
+          useQuery: UseQueryHook<TConfig[Group], TUnwrap>;
         }
       : {
-          useMutation: UseMutationHook<TConfig[Group]>;
+          useMutation: UseMutationHook<TConfig[Group], TUnwrap>;
         }
     : TConfig[Group] extends Record<string, EndpointConfig>
     ? {
         [Endpoint in keyof TConfig[Group]]: TConfig[Group][Endpoint]["method"] extends "GET"
           ? {
-              useQuery: UseQueryHook<TConfig[Group][Endpoint]>;
+              useQuery: UseQueryHook<TConfig[Group][Endpoint], TUnwrap>;
             }
           : {
-              useMutation: UseMutationHook<TConfig[Group][Endpoint]>;
+              useMutation: UseMutationHook<TConfig[Group][Endpoint], TUnwrap>;
             };
       }
     : never;
 };
 
+/**
+ * Request options the generated hooks accept next to the TanStack Query options
+ */
+export type HookRequestOptions = {
+  /** Headers sent with the requests of the hook, merged over the endpoint headers */
+  headers?: Record<string, string>;
+  /** Scheduler lane of the requests of the hook, over the endpoint priority */
+  priority?: RequestPriority;
+};
+
+/**
+ * Options of a generated useQuery hook
+ */
+type QueryHookOptions<
+  TEndpoint extends EndpointConfig,
+  TUnwrap extends UnwrapOption | undefined
+> = Omit<
+  UseQueryOptions<InferResponse<TEndpoint, TUnwrap>, InferError<TEndpoint>>,
+  "queryKey" | "queryFn"
+> &
+  HookRequestOptions;
+
 /**
  * UseQuery hook signature for GET endpoints
  *
+ * The error type is inferred with InferError: a union keyed on the status code
+ * when the endpoint declares `errors`, FetchError otherwise.
+ *
  * Handles all combinations of path parameters and query parameters:
  * - No params, no query: (options?) => result
  * - No params, has query: (query, options?) => result
  * - Has params, no query: (params, options?) => result
  * - Has both: (params, query, options?) => result
  */
-export type UseQueryHook<TEndpoint extends EndpointConfig> =
+export type UseQueryHook<
+  TEndpoint extends EndpointConfig,
+  TUnwrap extends UnwrapOption | undefined = undefined
+> =
   // Check if path has parameters
-  ExtractParams<TEndpoint["path"]> extends Record<string, never>
+  InferParams<TEndpoint> extends Record<string, never>
     ? // No path params - check for query params
-      TEndpoint extends { querySchema: z.ZodSchema<infer TQuery> }
+      TEndpoint extends { querySchema: z.ZodType<any, any, infer TQuery> }
       ? // No params, has query
         (
           query: TQuery,
-          options?: Omit<
-            UseQueryOptions<InferResponse<TEndpoint>, Error>,
-            "queryKey" | "queryFn"
-          >
-        ) => UseQueryResult<InferResponse<TEndpoint>, Error>
+          options?: QueryHookOptions<TEndpoint, TUnwrap>
+        ) => UseQueryResult<InferResponse<TEndpoint, TUnwrap>, InferError<TEndpoint>>
       : // No params, no query
         (
-          options?: Omit<
-            UseQueryOptions<InferResponse<TEndpoint>, Error>,
-            "queryKey" | "queryFn"
-          >
-        ) => UseQueryResult<InferResponse<TEndpoint>, Error>
+          options?: QueryHookOptions<TEndpoint, TUnwrap>
+        ) => UseQueryResult<InferResponse<TEndpoint, TUnwrap>, InferError<TEndpoint>>
     : // Has path params - check for query params
-    TEndpoint extends { querySchema: z.ZodSchema<infer TQuery> }
+    TEndpoint extends { querySchema: z.ZodType<any, any, infer TQuery> }
     ? // Has params, has query
       (
-        params: ExtractParams<TEndpoint["path"]>,
+        params: InferParams<TEndpoint>,
         query: TQuery,
-        options?: Omit<
-          UseQueryOptions<InferResponse<TEndpoint>, Error>,
-          "queryKey" | "queryFn"
-        >
-      ) => UseQueryResult<InferResponse<TEndpoint>, Error>
+        options?: QueryHookOptions<TEndpoint, TUnwrap>
+      ) => UseQueryResult<InferResponse<TEndpoint, TUnwrap>, InferError<TEndpoint>>
     : // Has params, no query
       (
-        params: ExtractParams<TEndpoint["path"]>,
-        options?: Omit<
-          UseQueryOptions<InferResponse<TEndpoint>, Error>,
-          "queryKey" | "queryFn"
-        >
-      ) => UseQueryResult<InferResponse<TEndpoint>, Error>;
+        params: InferParams<TEndpoint>,
+        options?: QueryHookOptions<TEndpoint, TUnwrap>
+      ) => UseQueryResult<InferResponse<TEndpoint, TUnwrap>, InferError<TEndpoint>>;
 
 /**
  * UseMutation hook signature for POST/PUT/PATCH/DELETE endpoints
@@ -110,18 +148,22 @@ export type UseQueryHook<TEndpoint extends EndpointConfig> =
  * mutate({ params: { id: '123' }, body: { name: 'Jane' } });
  * ```
  */
-export type UseMutationHook<TEndpoint extends EndpointConfig> = (
+export type UseMutationHook<
+  TEndpoint extends EndpointConfig,
+  TUnwrap extends UnwrapOption | undefined = undefined
+> = (
   options?: Omit<
     UseMutationOptions<
-      InferResponse<TEndpoint>,
-      Error,
+      InferResponse<TEndpoint, TUnwrap>,
+      InferError<TEndpoint>,
       MutationVariables<TEndpoint>
     >,
     "mutationFn"
-  >
+  > &
+    HookRequestOptions
 ) => UseMutationResult<
-  InferResponse<TEndpoint>,
-  Error,
+  InferResponse<TEndpoint, TUnwrap>,
+  InferError<TEndpoint>,
   MutationVariables<TEndpoint>
 >;
 
@@ -135,28 +177,29 @@ export type UseMutationHook<TEndpoint extends EndpointConfig> = (
  * - Has params, no body: { params: P }
  * - Has params, untyped body: { params: P, body?: unknown }
  * - Has params, typed body: { params: P, body: T }
+ *
+ * Typed bodies use the input type of bodySchema, before transforms and defaults.
  */
-type MutationVariables<TEndpoint extends EndpointConfig> = ExtractParams<
-  TEndpoint["path"]
-> extends Record<string, never>
+type MutationVariables<TEndpoint extends EndpointConfig> =
+  InferParams<TEndpoint> extends Record<string, never>
   ? // No path params - check body type
     InferBody<TEndpoint> extends never
     ? void // No params, no body (e.g., POST /logout)
-    : TEndpoint extends { bodySchema: z.ZodSchema<infer TBody> }
+    : TEndpoint extends { bodySchema: z.ZodType<any, any, infer TBody> }
     ? { body: TBody } // No params, typed body (bodySchema provided)
     : { body?: unknown } // No params, untyped body (backward compatible)
   : // Has path params - check body type
   InferBody<TEndpoint> extends never
-  ? { params: ExtractParams<TEndpoint["path"]> } // Has params, no body
-  : TEndpoint extends { bodySchema: z.ZodSchema<infer TBody> }
+  ? { params: InferParams<TEndpoint> } // Has params, no body
+  : TEndpoint extends { bodySchema: z.ZodType<any, any, infer TBody> }
   ? {
       // Has params, typed body (bodySchema provided)
-      params: ExtractParams<TEndpoint["path"]>;
+      params: InferParams<TEndpoint>;
       body: TBody;
     }
   : {
       // Has params, untyped body (backward compatible)
-      params: ExtractParams<TEndpoint["path"]>;
+      params: InferParams<TEndpoint>;
       body?: unknown;
     };
 
@@ -171,6 +214,7 @@ type MutationVariables<TEndpoint extends EndpointConfig> = ExtractParams<
  * @param fetcher - Configured fetcher function for making HTTP requests
  * @param keyFactory - Query key factory for generating cache keys
  * @param queryClient - TanStack Query client instance for automatic invalidation
+ * @param fetchConfig - Fetch configuration providing the idempotency defaults and unwrap
  * @returns Generated hooks object matching the config structure
  *
  * @example
@@ -185,12 +229,16 @@ type MutationVariables<TEndpoint extends EndpointConfig> = ExtractParams<
  * mutate({ body: { name: 'John' } });
  * ```
  */
-export function createHooks<TConfig extends APIConfig>(
+export function createHooks<
+  TConfig extends APIConfig,
+  TUnwrap extends UnwrapOption | undefined = undefined
+>(
   config: TConfig,
   fetcher: FetcherFunction,
   keyFactory: QueryKeyFactory<TConfig>,
-  queryClient: QueryClient
-): GeneratedHooks<TConfig> {
+  queryClient: QueryClient,
+  fetchConfig: FetchConfig<TUnwrap> = {}
+): GeneratedHooks<TConfig, TUnwrap> {
   const hooks: any = {};
 
   // Iterate through each group in the configuration
@@ -205,7 +253,14 @@ export function createHooks<TConfig extends APIConfig>(
 
       if (endpoint.method === "GET") {
         hooks[group] = {
-          useQuery: createUseQueryHook(endpoint, fetcher, keyFn),
+          useQuery: createUseQueryHook(
+            endpoint,
+            fetcher,
+            queryClient,
+            keyFn,
+            String(group),
+            String(group)
+          ),
         };
       } else {
         hooks[group] = {
@@ -214,7 +269,9 @@ export function createHooks<TConfig extends APIConfig>(
             fetcher,
             queryClient,
             String(group),
-            String(group)
+            String(group),
+            resolveIdempotency(fetchConfig.idempotency, endpoint.idempotency),
+            fetchConfig.onEvent
           ),
         };
       }
@@ -228,7 +285,14 @@ export function createHooks<TConfig extends APIConfig>(
 
         if (endpoint.method === "GET") {
           hooks[group][endpointName] = {
-            useQuery: createUseQueryHook(endpoint, fetcher, keyFn),
+            useQuery: createUseQueryHook(
+              endpoint,
+              fetcher,
+              queryClient,
+              keyFn,
+              String(group),
+              String(endpointName)
+            ),
           };
         } else {
           hooks[group][endpointName] = {
@@ -237,7 +301,9 @@ export function createHooks<TConfig extends APIConfig>(
               fetcher,
               queryClient,
               String(group),
-              String(endpointName)
+              String(endpointName),
+              resolveIdempotency(fetchConfig.idempotency, endpoint.idempotency),
+              fetchConfig.onEvent
             ),
           };
         }
@@ -245,56 +311,161 @@ export function createHooks<TConfig extends APIConfig>(
     }
   }
 
-  return hooks as GeneratedHooks<TConfig>;
+  return hooks as GeneratedHooks<TConfig, TUnwrap>;
 }
 
+/**
+ * Default gcTime of TanStack Query, extended for data fresh for longer
+ */
+const DEFAULT_GC_TIME = 5 * 60 * 1000;
+
 /**
  * Creates a useQuery hook wrapper for GET endpoints
+ *
+ * When the endpoint declares `freshness`, the expiry time derived from each
+ * response is recorded per query key, and the hook passes a `staleTime`
+ * function marking the data stale at that time. The `staleTime` passed to the
+ * hook applies to responses declaring no expiry. The expiry is read from the
+ * response headers and parsed body, before unwrapping and transforms, kept
+ * per QueryClient, and forgotten once the query is removed from its cache.
+ *
+ * Queries run in the QueryClient of the nearest QueryClientProvider, like
+ * useQuery, falling back to the client of the API.
  */
 function createUseQueryHook(
   endpoint: EndpointConfig,
   fetcher: FetcherFunction,
-  keyFn: (params?: any, query?: any) => readonly unknown[]
+  queryClient: QueryClient,
+  keyFn: (params?: any, query?: any) => readonly unknown[],
+  group: string,
+  endpointName: string
 ): any {
+  const freshness = resolveFreshness(endpoint.freshness);
+
+  // Expiry timestamps of the data of each query, per client and query key hash
+  const expirations = new WeakMap<QueryClient, Map<string, number>>();
+  const getExpirations = (client: QueryClient) => {
+    let clientExpirations = expirations.get(client);
+    if (!clientExpirations) {
+      const created = new Map<string, number>();
+      client.getQueryCache().subscribe((event) => {
+        if (event.type === "removed") {
+          created.delete(hashKey(event.query.queryKey));
+        }
+      });
+      expirations.set(client, created);
+      clientExpirations = created;
+    }
+    return clientExpirations;
+  };
+
   return function useQueryHook(arg1?: any, arg2?: any, arg3?: any) {
     // Determine argument positions based on endpoint configuration
-    const hasParams = endpoint.path.includes(":");
+    const hasParams = extractPathParams(endpoint.path).length > 0;
     const hasQuery = !!endpoint.querySchema;
 
     let params: any;
     let query: any;
-    let options: any;
+    let hookOptions: any;
 
     if (hasParams && hasQuery) {
       // Has both: (params, query, options?)
       params = arg1;
       query = arg2;
-      options = arg3;
+      hookOptions = arg3;
     } else if (hasParams) {
       // Has params only: (params, options?)
       params = arg1;
-      options = arg2;
+      hookOptions = arg2;
     } else if (hasQuery) {
       // Has query only: (query, options?)
       query = arg1;
-      options = arg2;
+      hookOptions = arg2;
     } else {
       // Has neither: (options?)
-      options = arg1;
+      hookOptions = arg1;
     }
 
+    // Request options go to the fetcher, the others to TanStack Query
+    const { headers, priority, ...options } = hookOptions ?? {};
+
+    const client = useContext(QueryClientContext) ?? queryClient;
+
     // Generate query key including query params for proper caching
     const queryKey = keyFn(params, query);
 
     // Create query function
     const queryFn = async ({ signal }: { signal?: AbortSignal }) => {
-      return fetcher(endpoint.path, {
+      // Refetches of cached data run in the background and yield to other requests
+      const isBackgroundRefetch =
+        client.getQueryState(queryKey)?.data !== undefined;
+
+      let responseMeta: ResponseMeta | undefined;
+
+      const data = await fetcher(endpoint.path, {
         method: endpoint.method,
         params,
+        paramsSchema: endpoint.paramsSchema,
         query,
+        querySchema: endpoint.querySchema,
+        querySerializer: endpoint.querySerializer,
         signal,
         schema: endpoint.schema,
+        responses: endpoint.responses,
+        retry: endpoint.retry,
+        timeout: endpoint.timeout,
+        errors: endpoint.errors,
+        transform: endpoint.transform,
+        unwrap: endpoint.unwrap,
+        caseConversion: endpoint.caseConversion,
+        service: endpoint.service,
+        baseURL: endpoint.baseURL,
+        endpointHeaders: endpoint.headers,
+        headers,
+        priority:
+          priority ??
+          endpoint.priority ??
+          (isBackgroundRefetch ? "low" : undefined),
+        onResponseMeta: freshness
+          ? (meta: ResponseMeta) => {
+              responseMeta = meta;
+            }
+          : undefined,
+        endpoint: getEndpointMeta(endpoint, group, endpointName),
       });
+
+      if (freshness) {
+        const expiresAt = getExpiresAt(
+          freshness,
+          responseMeta,
+          responseMeta?.body
+        );
+        if (expiresAt === undefined) {
+          getExpirations(client).delete(hashKey(queryKey));
+        } else {
+          getExpirations(client).set(hashKey(queryKey), expiresAt);
+        }
+      }
+
+      return data;
+    };
+
+    // Mark the data stale at the time declared by the server, and keep it
+    // cached at least until then
+    const freshnessOptions = freshness && {
+      staleTime: (query: Query) => {
+        const expiresAt = getExpirations(client).get(hashKey(query.queryKey));
+        if (expiresAt === undefined) {
+          return typeof options?.staleTime === "function"
+            ? options.staleTime(query)
+            : options?.staleTime ?? 0;
+        }
+        return Math.max(0, expiresAt - query.state.dataUpdatedAt);
+      },
+      ...getExtendedGcTime(
+        getExpirations(client).get(hashKey(queryKey)),
+        options?.gcTime
+      ),
     };
 
     // Call TanStack Query's useQuery with generated key and function
@@ -302,35 +473,145 @@ function createUseQueryHook(
       queryKey,
       queryFn,
       ...options,
+      ...freshnessOptions,
     });
   };
 }
 
+/**
+ * Extend the gcTime of a query whose data stays fresh longer than the default
+ *
+ * @param expiresAt - Expiry timestamp of the query data, if known
+ * @param gcTime - gcTime passed to the hook, which always takes precedence
+ * @returns Options to spread into the query options
+ */
+function getExtendedGcTime(
+  expiresAt: number | undefined,
+  gcTime: number | undefined
+): { gcTime?: number } {
+  if (gcTime !== undefined || expiresAt === undefined) {
+    return {};
+  }
+
+  const lifetime = expiresAt - Date.now();
+  return lifetime > DEFAULT_GC_TIME ? { gcTime: lifetime } : {};
+}
+
 /**
  * Creates a useMutation hook wrapper for POST/PUT/PATCH/DELETE endpoints
  * with automatic query invalidation on success
+ *
+ * When the endpoint sends idempotency keys, a key is generated on the first
+ * attempt of each mutation call and recorded for the function context
+ * TanStack Query passes to every attempt of that call (or for the variables
+ * object, on versions without that context). Retries and mutations resumed
+ * in the same session reuse it; it is only sent as a header and never added
+ * to the variables. Mutations resumed after a reload get a new key.
+ *
+ * Each settled mutation call and automatic invalidation is reported to the
+ * `onEvent` listener of the fetch configuration.
  */
 function createUseMutationHook(
   endpoint: EndpointConfig,
   fetcher: FetcherFunction,
   queryClient: QueryClient,
   group: string,
-  _endpointName: string
+  endpointName: string,
+  idempotency?: IdempotencyPolicy,
+  onEvent?: APIEventListener
 ): any {
-  return function useMutationHook(options?: any) {
+  const endpointMeta = getEndpointMeta(endpoint, group, endpointName);
+
+  const invalidateGroup = async () => {
+    const queryKey = [group];
+    emitEvent(onEvent, {
+      type: "cache:invalidate",
+      group,
+      queryKey,
+      timestamp: Date.now(),
+    });
+    await queryClient.invalidateQueries({ queryKey });
+  };
+
+  const sendsIdempotencyKey = requiresIdempotencyKey(
+    idempotency,
+    endpoint.method
+  );
+
+  // Idempotency keys of the mutation calls, keyed by the mutation function
+  // context of the call or by its variables
+  const idempotencyKeys = new WeakMap<object, string>();
+
+  const getIdempotencyKey = (variables: any, context: any) => {
+    const call = context ?? variables;
+    if (!sendsIdempotencyKey || !call || typeof call !== "object") {
+      return undefined;
+    }
+
+    let key = idempotencyKeys.get(call);
+    if (key === undefined) {
+      key = idempotency!.generateKey();
+      idempotencyKeys.set(call, key);
+    }
+    return key;
+  };
+
+  return function useMutationHook(hookOptions?: any) {
+    // Request options go to the fetcher, the others to TanStack Query
+    const { headers, priority, ...options } = hookOptions ?? {};
+
+    const client = useContext(QueryClientContext) ?? queryClient;
+
     // Create mutation function
-    const mutationFn = async (variables: any) => {
+    const mutationFn = async (variables: any, context?: object) => {
       // Extract params and body from variables
       const params = variables?.params;
       const body = variables?.body;
+      const idempotencyKey = getIdempotencyKey(variables, context);
+      const startedAt = Date.now();
 
-      return fetcher(endpoint.path, {
-        method: endpoint.method,
-        params,
-        body,
-        schema: endpoint.schema,
-        bodySchema: endpoint.bodySchema,
-      });
+      // Report the outcome once the fetcher settles
+      const settle = (status: "success" | "error", error?: unknown) =>
+        emitEvent(onEvent, {
+          type: "mutation:settle",
+          status,
+          endpoint: endpointMeta,
+          params,
+          duration: Date.now() - startedAt,
+          error,
+          timestamp: Date.now(),
+        });
+
+      try {
+        const data = await fetcher(endpoint.path, {
+          method: endpoint.method,
+          params,
+          paramsSchema: endpoint.paramsSchema,
+          body,
+          schema: endpoint.schema,
+          responses: endpoint.responses,
+          bodySchema: endpoint.bodySchema,
+          retry: endpoint.retry,
+          timeout: endpoint.timeout,
+          errors: endpoint.errors,
+          transform: endpoint.transform,
+          unwrap: endpoint.unwrap,
+          caseConversion: endpoint.caseConversion,
+          service: endpoint.service,
+          baseURL: endpoint.baseURL,
+          endpointHeaders: endpoint.headers,
+          headers,
+          idempotency: endpoint.idempotency,
+          idempotencyKey,
+          priority: priority ?? endpoint.priority,
+          endpoint: endpointMeta,
+        });
+        settle("success");
+        return data;
+      } catch (error) {
+        settle("error", error);
+        throw error;
+      }
     };
 
     // Determine automatic invalidation strategy based on HTTP method
@@ -343,19 +624,13 @@ function createUseMutationHook(
       // Automatic invalidation based on method
       if (endpoint.method === "POST") {
         // POST mutations invalidate list queries
-        await queryClient.invalidateQueries({
-          queryKey: [group],
-        });
+        await invalidateGroup();
       } else if (endpoint.method === "PUT" || endpoint.method === "PATCH") {
         // PUT/PATCH mutations invalidate list and specific item queries
-        await queryClient.invalidateQueries({
-          queryKey: [group],
-        });
+        await invalidateGroup();
       } else if (endpoint.method === "DELETE") {
         // DELETE mutations invalidate list and specific item queries
-        await queryClient.invalidateQueries({
-          queryKey: [group],
-        });
+        await invalidateGroup();
       }
     };
 
@@ -368,6 +643,23 @@ function createUseMutationHook(
   };
 }
 
+/**
+ * Build the endpoint metadata passed to the fetcher middleware and reported
+ * with lifecycle events
+ */
+export function getEndpointMeta(
+  endpoint: EndpointConfig,
+  group: string,
+  endpointName: string
+): EndpointMeta {
+  return {
+    group,
+    name: endpointName,
+    method: endpoint.method,
+    path: endpoint.path,
+  };
+}
+
 /**
  * Type guard to check if a value is an EndpointConfig
  */
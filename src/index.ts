@@ -8,4 +8,46 @@
 
 export * from "./types";
 export { createQueryAPI } from "./createQueryAPI";
+export {
+  RequestError,
+  HttpError,
+  NetworkError,
+  TimeoutError,
+  AbortError,
+  CircuitOpenError,
+  SchemaValidationError,
+  isAPIError,
+  isHttpError,
+  isValidationError,
+} from "./errors";
+export type {
+  FetchError,
+  RequestErrorContext,
+  ValidationTarget,
+} from "./errors";
 export type { InvalidationUtils } from "./invalidation";
+export {
+  fetchTransport,
+  createXHRTransport,
+  createMemoryTransport,
+  jsonCodec,
+  isoDateCodec,
+  bigIntCodec,
+  createBigIntCodec,
+  superjsonCodec,
+  createScheduler,
+  createCircuitBreaker,
+  noopTracer,
+  createMemoryTracer,
+  createMemoryHttpCacheStore,
+} from "./fetch";
+export type {
+  XHRTransportOptions,
+  MemoryTransport,
+  MemoryTransportHandler,
+  MemoryTransportResponse,
+  MemoryHttpCacheStoreOptions,
+  BigIntCodecOptions,
+  FinishedSpan,
+  MemoryTracer,
+} from "./fetch";
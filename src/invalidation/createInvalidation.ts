@@ -1,6 +1,14 @@
 import type { QueryClient } from "@tanstack/query-core";
-import type { APIConfig, EndpointConfig, ExtractParams } from "../types";
+import type {
+  APIConfig,
+  CacheInvalidateEvent,
+  EndpointConfig,
+  FetchConfig,
+  InferParams,
+} from "../types";
 import type { QueryKeyFactory } from "../keys/createKeyFactory";
+import { emitEvent } from "../fetch/events";
+import { getEndpointMeta } from "../hooks/createHooks";
 
 /**
  * Invalidation utilities type that provides manual invalidation methods
@@ -10,7 +18,7 @@ export type InvalidationUtils<TConfig extends APIConfig> = {
   [Group in keyof TConfig]: TConfig[Group] extends EndpointConfig
     ? {
         invalidate: (
-          params?: ExtractParams<TConfig[Group]["path"]>
+          params?: InferParams<TConfig[Group]>
         ) => Promise<void>;
       }
     : TConfig[Group] extends Record<string, EndpointConfig>
@@ -19,7 +27,7 @@ export type InvalidationUtils<TConfig extends APIConfig> = {
           all: () => Promise<void>;
         } & {
           [Endpoint in keyof TConfig[Group]]: (
-            params?: ExtractParams<TConfig[Group][Endpoint]["path"]>
+            params?: InferParams<TConfig[Group][Endpoint]>
           ) => Promise<void>;
         };
       }
@@ -31,10 +39,13 @@ export type InvalidationUtils<TConfig extends APIConfig> = {
  *
  * Generates manual invalidation methods for each endpoint and group.
  * Supports invalidating specific queries by parameters or entire groups.
+ * Each invalidation is reported to the `onEvent` listener of the fetch
+ * configuration.
  *
  * @param config - API configuration defining all endpoints
  * @param queryClient - TanStack Query client instance for cache management
  * @param keyFactory - Query key factory for generating cache keys
+ * @param fetchConfig - Fetch configuration with the event listener
  * @returns Invalidation utilities object matching the config structure
  *
  * @example
@@ -51,10 +62,22 @@ export type InvalidationUtils<TConfig extends APIConfig> = {
 export function createInvalidation<TConfig extends APIConfig>(
   config: TConfig,
   queryClient: QueryClient,
-  keyFactory: QueryKeyFactory<TConfig>
+  keyFactory: QueryKeyFactory<TConfig>,
+  fetchConfig: FetchConfig = {}
 ): InvalidationUtils<TConfig> {
   const invalidation: any = {};
 
+  const invalidate = async (
+    target: Omit<CacheInvalidateEvent, "type" | "timestamp">
+  ) => {
+    emitEvent(fetchConfig.onEvent, {
+      type: "cache:invalidate",
+      ...target,
+      timestamp: Date.now(),
+    });
+    await queryClient.invalidateQueries({ queryKey: target.queryKey });
+  };
+
   // Iterate through each group in the configuration
   for (const group in config) {
     const groupConfig = config[group];
@@ -66,8 +89,12 @@ export function createInvalidation<TConfig extends APIConfig>(
 
       invalidation[group] = {
         invalidate: async (params?: any) => {
-          const queryKey = keyFn(params);
-          await queryClient.invalidateQueries({ queryKey });
+          await invalidate({
+            group,
+            endpoint: getEndpointMeta(groupConfig, group, group),
+            params,
+            queryKey: keyFn(params),
+          });
         },
       };
     } else {
@@ -76,20 +103,23 @@ export function createInvalidation<TConfig extends APIConfig>(
         invalidate: {
           // Create invalidate.all() for the entire group
           all: async () => {
-            await queryClient.invalidateQueries({
-              queryKey: [group],
-            });
+            await invalidate({ group, queryKey: [group] });
           },
         },
       };
 
       // Create invalidate method for each endpoint
       for (const endpointName in groupConfig) {
+        const endpoint = groupConfig[endpointName] as EndpointConfig;
         const keyFn = (keyFactory as any)[group][endpointName].key;
 
         invalidation[group].invalidate[endpointName] = async (params?: any) => {
-          const queryKey = keyFn(params);
-          await queryClient.invalidateQueries({ queryKey });
+          await invalidate({
+            group,
+            endpoint: getEndpointMeta(endpoint, group, endpointName),
+            params,
+            queryKey: keyFn(params),
+          });
         };
       }
     }
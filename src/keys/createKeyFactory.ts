@@ -1,4 +1,12 @@
-import type { APIConfig, EndpointConfig, ExtractParams } from "../types";
+import type { z } from "zod";
+import type {
+  APIConfig,
+  EndpointConfig,
+  FetchConfig,
+  InferParams,
+  QuerySerializerConfig,
+} from "../types";
+import { normalizeQuery, resolveQuerySerializer } from "../fetch/query";
 
 /**
  * Query key factory type that generates typed key functions for each endpoint
@@ -12,7 +20,7 @@ export type QueryKeyFactory<TConfig extends APIConfig> = {
   [Group in keyof TConfig]: TConfig[Group] extends EndpointConfig
     ? {
         key: (
-          params?: ExtractParams<TConfig[Group]["path"]>,
+          params?: InferParams<TConfig[Group]>,
           query?: any
         ) => readonly unknown[];
       }
@@ -20,7 +28,7 @@ export type QueryKeyFactory<TConfig extends APIConfig> = {
     ? {
         [Endpoint in keyof TConfig[Group]]: {
           key: (
-            params?: ExtractParams<TConfig[Group][Endpoint]["path"]>,
+            params?: InferParams<TConfig[Group][Endpoint]>,
             query?: any
           ) => readonly unknown[];
         };
@@ -33,8 +41,12 @@ export type QueryKeyFactory<TConfig extends APIConfig> = {
  *
  * Generates deterministic, hierarchical query keys following TanStack Query v5 standards.
  * Keys are structured as [group, endpoint, params] for consistent caching and invalidation.
+ * Path parameters are parsed with the endpoint's paramsSchema, and query
+ * parameters with its querySchema and normalized with its query serializer,
+ * so that requests sharing a URL share a key.
  *
  * @param config - API configuration defining all endpoints
+ * @param fetchConfig - Optional fetch configuration providing the global query serializer
  * @returns Query key factory with typed key generation functions
  *
  * @example
@@ -54,7 +66,8 @@ export type QueryKeyFactory<TConfig extends APIConfig> = {
  * ```
  */
 export function createKeyFactory<TConfig extends APIConfig>(
-  config: TConfig
+  config: TConfig,
+  fetchConfig: FetchConfig = {}
 ): QueryKeyFactory<TConfig> {
   const factory: any = {};
 
@@ -65,18 +78,25 @@ export function createKeyFactory<TConfig extends APIConfig>(
     // Check if this is a direct endpoint or a nested group
     if (isEndpointConfig(groupConfig)) {
       // Direct endpoint at group level
+      const options = getKeyOptions(groupConfig, fetchConfig);
+
       factory[group] = {
         key: (params?: any, query?: any) =>
-          createKey(group, group, params, query),
+          createKey(group, group, params, query, options),
       };
     } else {
       // Nested group with multiple endpoints
       factory[group] = {};
 
       for (const endpoint in groupConfig) {
+        const options = getKeyOptions(
+          (groupConfig as Record<string, EndpointConfig>)[endpoint],
+          fetchConfig
+        );
+
         factory[group][endpoint] = {
           key: (params?: any, query?: any) =>
-            createKey(group, endpoint, params, query),
+            createKey(group, endpoint, params, query, options),
         };
       }
     }
@@ -85,6 +105,35 @@ export function createKeyFactory<TConfig extends APIConfig>(
   return factory as QueryKeyFactory<TConfig>;
 }
 
+/**
+ * Endpoint settings affecting how query parameters appear in the key
+ */
+type KeyOptions = {
+  /** Schema the path parameters are parsed with before they are sent */
+  paramsSchema?: z.ZodSchema;
+  /** Schema the query is parsed with before it is sent */
+  querySchema?: z.ZodSchema;
+  /** Query serializer the endpoint's requests are sent with */
+  serializer: QuerySerializerConfig;
+};
+
+/**
+ * Resolve the key options of an endpoint
+ */
+function getKeyOptions(
+  endpoint: EndpointConfig,
+  fetchConfig: FetchConfig
+): KeyOptions {
+  return {
+    paramsSchema: endpoint.paramsSchema,
+    querySchema: endpoint.querySchema,
+    serializer: resolveQuerySerializer(
+      fetchConfig.querySerializer,
+      endpoint.querySerializer
+    ),
+  };
+}
+
 /**
  * Creates a hierarchical query key with deterministic parameter ordering
  *
@@ -92,49 +141,125 @@ export function createKeyFactory<TConfig extends APIConfig>(
  * @param endpoint - The endpoint name
  * @param params - Optional path parameters to include in the key
  * @param query - Optional query parameters to include in the key
+ * @param options - Params and query schemas and serializer of the endpoint
  * @returns Readonly array representing the query key
  */
 function createKey(
   group: string,
   endpoint: string,
   params?: Record<string, string | number>,
-  query?: any
+  query?: any,
+  options: KeyOptions = { serializer: {} }
 ): readonly unknown[] {
   const key: unknown[] = [group, endpoint];
 
+  // Use the parsed params so that `{ id: "1" }` and `{ id: 1 }` share a key
+  // when the schema coerces them. Keys without params stay prefixes of the
+  // endpoint's keys, and invalid params are kept as they are.
+  if (params && options.paramsSchema) {
+    const result = options.paramsSchema.safeParse(params);
+    if (result.success) {
+      params = result.data;
+    }
+  }
+
   // If parameters are provided, add them to the key
   if (params && Object.keys(params).length > 0) {
     // Sort parameter keys for deterministic ordering
-    const sortedParams: Record<string, string | number> = {};
+    const sortedParams: Record<string, unknown> = {};
     const keys = Object.keys(params).sort();
 
     for (const k of keys) {
       const value = params[k];
       if (value !== undefined) {
-        sortedParams[k] = value;
+        sortedParams[k] = toKeyValue(value);
       }
     }
 
     key.push(sortedParams);
   }
 
+  // Use the parsed query so that schema defaults and coercions share a key
+  // with the explicit values. Keys without a query stay prefixes of the
+  // endpoint's keys, and invalid queries are kept as they are, the request
+  // fails validation anyway.
+  if (query && options.querySchema) {
+    const result = options.querySchema.safeParse(query);
+    if (result.success) {
+      query = result.data;
+    }
+  }
+
   // If query parameters are provided, add them to the key
   if (query && typeof query === "object" && Object.keys(query).length > 0) {
-    // Sort query keys for deterministic ordering
-    const sortedQuery: Record<string, any> = {};
-    const queryKeys = Object.keys(query).sort();
+    // Sort query keys and encode values the way they are serialized
+    key.push(toKeyValue(normalizeQuery(query, options.serializer)));
+  }
 
-    for (const k of queryKeys) {
-      const value = query[k];
-      if (value !== undefined) {
-        sortedQuery[k] = value;
+  return key as readonly unknown[];
+}
+
+/**
+ * Convert a value into a deterministic, JSON-safe key part
+ *
+ * TanStack Query hashes keys with JSON.stringify, which throws on BigInt and
+ * turns every Map and Set into `{}`. Dates become ISO strings, BigInts,
+ * Maps and Sets tagged objects with sorted entries, and plain object keys
+ * are sorted.
+ *
+ * @example
+ * toKeyValue({ b: 1n, a: new Set([2, 1]) }) // { a: { $set: [1, 2] }, b: { $bigint: "1" } }
+ */
+function toKeyValue(value: unknown): unknown {
+  if (typeof value === "bigint") {
+    return { $bigint: value.toString() };
+  }
+
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? String(value) : value.toISOString();
+  }
+
+  if (value instanceof Map) {
+    return {
+      $map: sortByHash(
+        [...value.entries()].map(([k, v]) => [toKeyValue(k), toKeyValue(v)]),
+        ([k]) => k
+      ),
+    };
+  }
+
+  if (value instanceof Set) {
+    return { $set: sortByHash([...value].map(toKeyValue), (item) => item) };
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(toKeyValue);
+  }
+
+  if (value !== null && typeof value === "object") {
+    const sorted: Record<string, unknown> = {};
+
+    for (const k of Object.keys(value).sort()) {
+      const item = (value as Record<string, unknown>)[k];
+      if (item !== undefined) {
+        sorted[k] = toKeyValue(item);
       }
     }
 
-    key.push(sortedQuery);
+    return sorted;
   }
 
-  return key as readonly unknown[];
+  return value;
+}
+
+/**
+ * Sort items by the JSON representation of a part of them
+ */
+function sortByHash<T>(items: T[], select: (item: T) => unknown): T[] {
+  return items
+    .map((item) => ({ item, hash: JSON.stringify(select(item)) }))
+    .sort((a, b) => (a.hash < b.hash ? -1 : a.hash > b.hash ? 1 : 0))
+    .map(({ item }) => item);
 }
 
 /**
@@ -1,4 +1,15 @@
 import type { z } from "zod";
+import type {
+  AbortError,
+  CircuitOpenError,
+  RequestError,
+  FetchError,
+  HttpError,
+  NetworkError,
+  SchemaValidationError,
+  TimeoutError,
+  ValidationTarget,
+} from "./errors";
 
 /**
  * HTTP methods supported by the QueryAPI System
@@ -49,12 +60,159 @@ export type EndpointConfig = {
   method: HTTPMethod;
   /** URL path template (e.g., "/users/:id") */
   path: string;
+  /** Optional service from FetchConfig.services the endpoint is sent to */
+  service?: string;
+  /** Optional base URL overriding the one of the service or FetchConfig */
+  baseURL?: string;
+  /** Optional headers, static or computed from the call variables */
+  headers?: EndpointHeaders;
+  /** Optional Zod schema validating and coercing path parameters */
+  paramsSchema?: z.ZodSchema;
   /** Optional Zod schema for response validation and type inference */
   schema?: z.ZodSchema;
+  /** Optional Zod schemas for success responses keyed by status code, null for no content */
+  responses?: ResponseSchemas;
   /** Optional Zod schema for request body validation and type inference (POST/PUT/PATCH only) */
   bodySchema?: z.ZodSchema;
   /** Optional Zod schema for query parameter validation and type inference */
   querySchema?: z.ZodSchema;
+  /** Optional query string format overriding the global one from FetchConfig */
+  querySerializer?: QuerySerializerOption;
+  /** Optional retry policy overriding the global one from FetchConfig */
+  retry?: RetryOption;
+  /** Optional timeout in milliseconds overriding the global one from FetchConfig */
+  timeout?: number;
+  /** Optional Zod schemas for error bodies, keyed by status code or "default" */
+  errors?: ErrorSchemas;
+  /** Optional function reshaping the validated response, e.g. to unwrap an envelope */
+  transform?: (data: any) => unknown;
+  /** Set to false to skip the global unwrap from FetchConfig */
+  unwrap?: boolean;
+  /** Optional key case conversion overriding the global one from FetchConfig; false disables it */
+  caseConversion?: CaseConversionOption;
+  /** Optional idempotency keys overriding the global setting from FetchConfig; false disables them */
+  idempotency?: IdempotencyOption;
+  /** Optional scheduling priority (default: "high" for mutations, "normal" for queries) */
+  priority?: RequestPriority;
+  /** Optionally derive the query staleTime from the response (GET only) */
+  freshness?: FreshnessOption;
+};
+
+/**
+ * Options deriving the freshness of query data from the response
+ *
+ * @example
+ * ```typescript
+ * // Cache-Control: max-age and Expires headers
+ * const freshness: FreshnessOption = true;
+ *
+ * // A field of the response, falling back to the headers
+ * const fromField: FreshnessConfig = { field: 'meta.expiresAt' };
+ * ```
+ */
+export type FreshnessConfig = {
+  /** Read Cache-Control max-age and Expires headers (default: true) */
+  headers?: boolean;
+  /** Dot-separated path of a field of the parsed response body holding the expiry time, or a function reading it */
+  field?: string | ((data: any) => Date | string | number | null | undefined);
+};
+
+/**
+ * Freshness option accepted by EndpointConfig
+ *
+ * `true` reads the Cache-Control and Expires headers.
+ */
+export type FreshnessOption = boolean | FreshnessConfig;
+
+/**
+ * Metadata of a successful response, handed back to the caller
+ */
+export type ResponseMeta = {
+  /** HTTP status code */
+  status: number;
+  /** Response headers */
+  headers: { get(name: string): string | null };
+  /** Time the response was received, in milliseconds since the epoch */
+  receivedAt: number;
+  /** Parsed response body, before validation, unwrapping and transforms */
+  body?: unknown;
+};
+
+/**
+ * Headers declared on an endpoint
+ *
+ * Either a static record, or a function computing the headers from the call
+ * variables after validation (params, query and body, as parsed by their
+ * schemas). An `undefined` value removes a header set by the global or
+ * service defaults.
+ *
+ * @example
+ * ```typescript
+ * const headers: EndpointHeaders = { Accept: 'application/vnd.acme.v2+json' };
+ *
+ * const tenantHeaders: EndpointHeaders = ({ params }) => ({
+ *   'X-Tenant': String(params.tenantId),
+ * });
+ * ```
+ */
+export type EndpointHeaders =
+  | Record<string, string | undefined>
+  | ((
+      variables: HeaderVariables
+    ) =>
+      | Record<string, string | undefined>
+      | Promise<Record<string, string | undefined>>);
+
+/**
+ * Call variables passed to endpoint header functions
+ */
+export type HeaderVariables = {
+  /** Path parameters */
+  params: Record<string, any>;
+  /** Query parameters */
+  query: any;
+  /** Request body */
+  body: any;
+};
+
+/**
+ * Zod schemas validating error response bodies
+ *
+ * The schema matching the response status is used, falling back to
+ * `default` for undeclared statuses.
+ *
+ * @example
+ * ```typescript
+ * const errors: ErrorSchemas = {
+ *   404: z.object({ message: z.string() }),
+ *   422: z.object({ fields: z.record(z.string()) }),
+ *   default: ProblemSchema,
+ * };
+ * ```
+ */
+export type ErrorSchemas = {
+  [status: number]: z.ZodSchema;
+  default?: z.ZodSchema;
+};
+
+/**
+ * Zod schemas validating success response bodies
+ *
+ * The schema matching the response status is used. `null` declares a status
+ * without content (e.g. 204), whose body is not parsed and resolves to
+ * `undefined`. Undeclared statuses fall back to `schema`.
+ *
+ * @example
+ * ```typescript
+ * const responses: ResponseSchemas = {
+ *   200: UserSchema,
+ *   201: UserSchema,
+ *   204: null,
+ * };
+ * ```
+ */
+export type ResponseSchemas = {
+  [status: number]: z.ZodSchema | null;
 };
 
 /**
@@ -143,22 +301,842 @@ export type ValidatedAPIConfig = {
     | ValidateEndpointConfig<EndpointConfig>;
 };
 
+/**
+ * Global unwrap applied to every validated response
+ *
+ * A key replaces object responses with the value of that property, e.g.
+ * `"data"` for `{ data, meta }` envelopes. A function receives the validated
+ * response and the endpoint metadata.
+ */
+export type UnwrapOption =
+  | string
+  | ((data: unknown, endpoint?: EndpointMeta) => unknown);
+
 /**
  * Configuration for the fetch wrapper
+ *
+ * The type parameter captures the global unwrap, so that the generated hooks
+ * can type their data with it.
  */
-export type FetchConfig = {
+export type FetchConfig<
+  TUnwrap extends UnwrapOption | undefined = UnwrapOption | undefined
+> = {
   /** Base URL prepended to all requests */
   baseURL?: string;
   /** Default headers included in all requests */
   headers?: Record<string, string>;
   /** Interceptor executed before each request */
   beforeRequest?: (config: RequestInit) => RequestInit | Promise<RequestInit>;
-  /** Interceptor executed after each response */
-  afterResponse?: (response: Response) => Response | Promise<Response>;
+  /**
+   * Interceptor executed after each response
+   *
+   * Receives the response of the transport: the native `Response` with the
+   * default fetch transport, a Response-like object with its URL, status,
+   * headers and body otherwise.
+   */
+  afterResponse?: (
+    response: TransportResponse
+  ) => TransportResponse | Promise<TransportResponse>;
+  /** Default retry policy for all requests (disabled by default) */
+  retry?: RetryOption;
+  /** Default query string format for all requests (repeated keys by default) */
+  querySerializer?: QuerySerializerOption;
+  /** Default timeout in milliseconds for each attempt (no timeout by default) */
+  timeout?: number;
+  /** Transport performing the HTTP requests (default: global fetch) */
+  transport?: Transport;
+  /** Ordered middleware chain wrapping every request */
+  middleware?: Middleware[];
+  /** Token handling with automatic refresh and replay on 401 responses */
+  auth?: AuthConfig;
+  /** Key or function unwrapping every validated response, before endpoint transforms */
+  unwrap?: TUnwrap;
+  /** Codec serializing request bodies and deserializing JSON responses (default: plain JSON) */
+  codec?: Codec;
+  /** Convert camelCase keys to snake_case on the wire (disabled by default) */
+  caseConversion?: CaseConversionOption;
+  /** Named services with their own base URL, headers and middleware */
+  services?: Record<string, ServiceConfig>;
+  /** Send an idempotency key with unsafe mutations (disabled by default) */
+  idempotency?: IdempotencyOption;
+  /** Scheduler limiting concurrent requests, created with createScheduler */
+  scheduler?: Scheduler;
+  /** Revalidate GET responses with ETag/Last-Modified validators (disabled by default) */
+  httpCache?: HttpCacheOption;
+  /** Circuit breaker failing fast while a service is down, created with createCircuitBreaker */
+  circuitBreaker?: CircuitBreaker;
+  /** Listener receiving request, validation, invalidation and mutation lifecycle events */
+  onEvent?: APIEventListener;
+  /** Span per request and W3C trace context propagation (no-op tracer by default) */
+  tracing?: TracingConfig;
+};
+
+/**
+ * Backend service endpoints can be sent to
+ *
+ * Endpoints select a service with `service`, or through the `groups` the
+ * service declares. Service headers are merged over the global ones and
+ * service middleware runs after the global middleware.
+ *
+ * @example
+ * ```typescript
+ * const services: Record<string, ServiceConfig> = {
+ *   billing: {
+ *     baseURL: 'https://billing.example.com/v2',
+ *     headers: { 'X-Tenant': tenantId },
+ *     groups: ['invoices', 'payments'],
+ *   },
+ * };
+ * ```
+ */
+export type ServiceConfig = {
+  /** Base URL of the service (absolute, protocol-relative or relative to the page) */
+  baseURL: string;
+  /** Headers sent to this service, merged over the global headers */
+  headers?: Record<string, string>;
+  /** Middleware applied to this service, after the global middleware */
+  middleware?: Middleware[];
+  /** Endpoint groups sent to this service unless they select another one */
+  groups?: string[];
+};
+
+/**
+ * Codec converting between values and JSON text
+ *
+ * Used for request bodies and for JSON response and error bodies. Built-in
+ * codecs: `jsonCodec`, `isoDateCodec`, `bigIntCodec` and `superjsonCodec`.
+ *
+ * @example
+ * ```typescript
+ * const codec: Codec = {
+ *   serialize: (value) => JSON.stringify(value),
+ *   deserialize: (text) => JSON.parse(text, reviveDates),
+ * };
+ * ```
+ */
+export type Codec = {
+  /** Convert a request body into JSON text */
+  serialize: (value: unknown) => string;
+  /** Convert JSON response text into a value */
+  deserialize: (text: string) => unknown;
+};
+
+/**
+ * Authentication configuration for the fetcher
+ *
+ * On a 401 response the token is refreshed once, requests issued while the
+ * refresh is pending wait for it, and every failed request is replayed once
+ * with the new token.
+ *
+ * @example
+ * ```typescript
+ * const auth: AuthConfig = {
+ *   getToken: () => tokenStore.accessToken,
+ *   refreshToken: async () => {
+ *     tokenStore.accessToken = await renewAccessToken(tokenStore.refreshToken);
+ *   },
+ *   onAuthFailure: () => redirectToLogin(),
+ * };
+ * ```
+ */
+export type AuthConfig = {
+  /** Return the current access token, or null/undefined to send no token */
+  getToken: () =>
+    | string
+    | null
+    | undefined
+    | Promise<string | null | undefined>;
+  /** Refresh the token so that getToken returns the new one; reject on failure */
+  refreshToken: () => Promise<void>;
+  /** Called once when a refresh fails */
+  onAuthFailure?: (error: unknown) => void;
+  /** Header carrying the token (default: "Authorization") */
+  header?: string;
+  /** Scheme prefixed to the token; empty string to send the raw token (default: "Bearer") */
+  scheme?: string;
+};
+
+/**
+ * Metadata identifying the endpoint a request was generated for
+ */
+export type EndpointMeta = {
+  /** Group name in the API configuration */
+  group: string;
+  /** Endpoint name (equal to the group for direct endpoints) */
+  name: string;
+  /** HTTP method of the endpoint */
+  method: HTTPMethod;
+  /** URL path template of the endpoint (e.g., "/users/:id") */
+  path: string;
+};
+
+/**
+ * Context passed to middleware handlers
+ */
+export type MiddlewareContext = {
+  /** Fully resolved request URL */
+  url: string;
+  /** Request configuration */
+  init: RequestInit;
+  /** Endpoint metadata, when the request comes from a generated hook */
+  endpoint?: EndpointMeta;
+  /** Options the fetcher was called with (params, query, body, schemas...) */
+  options: FetchOptions;
+};
+
+/**
+ * Middleware entry in the fetcher chain
+ *
+ * `onRequest` handlers run in array order, `onResponse` and `onError`
+ * handlers run in reverse order.
+ *
+ * @example
+ * ```typescript
+ * const auth: Middleware = {
+ *   onRequest: ({ init }) => ({
+ *     init: { ...init, headers: { ...init.headers, Authorization: `Bearer ${token}` } },
+ *   }),
+ * };
+ *
+ * const fallback: Middleware = {
+ *   onError: (error, { endpoint }) =>
+ *     endpoint?.name === 'list' ? new Response('[]') : undefined,
+ * };
+ * ```
+ */
+export type Middleware = {
+  /** Inspect the request and optionally replace its URL or RequestInit */
+  onRequest?: (
+    context: MiddlewareContext
+  ) =>
+    | { url?: string; init?: RequestInit }
+    | void
+    | Promise<{ url?: string; init?: RequestInit } | void>;
+  /** Inspect the response and optionally replace it */
+  onResponse?: (
+    response: TransportResponse,
+    context: MiddlewareContext
+  ) => TransportResponse | void | Promise<TransportResponse | void>;
+  /** Recover from a transport error by returning a response */
+  onError?: (
+    error: unknown,
+    context: MiddlewareContext
+  ) => TransportResponse | void | Promise<TransportResponse | void>;
+};
+
+/**
+ * Normalized request handed to a transport
+ */
+export type TransportRequest = {
+  /** Fully resolved URL including the query string */
+  url: string;
+  /** HTTP method */
+  method: string;
+  /** Request headers */
+  headers: Record<string, string>;
+  /** Serialized request body */
+  body?: BodyInit | null;
+  /** Signal aborting the request (cancellation and timeouts) */
+  signal?: AbortSignal | null;
+  /** Original RequestInit, including options set by interceptors (credentials, mode, ...) */
+  init: RequestInit;
+};
+
+/**
+ * Response-like object returned by a transport
+ *
+ * The global `Response` class satisfies this type.
+ */
+export type TransportResponse = {
+  /** URL of the response, after redirects */
+  url: string;
+  ok: boolean;
+  status: number;
+  statusText: string;
+  headers: { get(name: string): string | null };
+  json(): Promise<unknown>;
+  text(): Promise<string>;
+  /** Body stream, cancelled when the response is discarded (e.g. before a retry) */
+  body?: ReadableStream<Uint8Array> | null;
+};
+
+/**
+ * Transport performing a single HTTP request
+ *
+ * @example
+ * ```typescript
+ * const loggingTransport: Transport = async (request) => {
+ *   console.log(request.method, request.url);
+ *   return fetch(request.url, request.init);
+ * };
+ * ```
+ */
+export type Transport = (request: TransportRequest) => Promise<TransportResponse>;
+
+/**
+ * Priority lane of a scheduled request
+ *
+ * Queued requests start in lane order (`high`, then `normal`, then `low`),
+ * and in call order within a lane.
+ */
+export type RequestPriority = "high" | "normal" | "low";
+
+/**
+ * Request waiting for a scheduler slot
+ */
+export type ScheduledRequest = {
+  /** Fully resolved request URL */
+  url: string;
+  /** HTTP method */
+  method: string;
+  /** Priority lane of the request */
+  priority: RequestPriority;
+  /** Service the request is sent to, if any */
+  service?: string;
+  /** Endpoint metadata, when the request comes from a generated hook */
+  endpoint?: EndpointMeta;
+};
+
+/**
+ * Scheduler options
+ *
+ * @example
+ * ```typescript
+ * const config: SchedulerConfig = {
+ *   maxConcurrent: 6,
+ *   keyBy: 'service',
+ * };
+ * ```
+ */
+export type SchedulerConfig = {
+  /** Maximum number of requests in flight per key */
+  maxConcurrent: number;
+  /** Group requests sharing a limit by host, by service or by a custom key (default: "host") */
+  keyBy?: "host" | "service" | ((request: ScheduledRequest) => string);
+};
+
+/**
+ * Scheduler limiting the number of concurrent requests
+ *
+ * Each attempt of a request holds a slot while it is in flight, so retry
+ * delays do not block other requests.
+ */
+export type Scheduler = {
+  /** Run a task once a slot of the request's key is free */
+  schedule: <T>(
+    request: ScheduledRequest,
+    task: () => Promise<T>,
+    signal?: AbortSignal | null
+  ) => Promise<T>;
+  /** Number of queued requests for a key, or for all keys */
+  getQueueDepth: (key?: string) => number;
+  /** Number of requests in flight for a key, or for all keys */
+  getActiveCount: (key?: string) => number;
+};
+
+/**
+ * Response stored by the HTTP cache
+ */
+export type HttpCacheEntry = {
+  /** Status of the stored response */
+  status: number;
+  /** Status text of the stored response */
+  statusText: string;
+  /** Response headers, with lowercase names */
+  headers: Record<string, string>;
+  /** Response body text */
+  body: string;
+  /** ETag validator, sent as If-None-Match */
+  etag?: string;
+  /** Last-Modified validator, sent as If-Modified-Since */
+  lastModified?: string;
+  /** Hash of the request headers named in Vary and of Authorization */
+  variant?: string;
+};
+
+/**
+ * Storage of the HTTP cache, keyed by request URL
+ *
+ * @example
+ * ```typescript
+ * const sessionStore: HttpCacheStore = {
+ *   get: (key) => JSON.parse(sessionStorage.getItem(key) ?? 'null') ?? undefined,
+ *   set: (key, entry) => sessionStorage.setItem(key, JSON.stringify(entry)),
+ *   delete: (key) => sessionStorage.removeItem(key),
+ * };
+ * ```
+ */
+export type HttpCacheStore = {
+  /** Read the entry stored for a key */
+  get: (
+    key: string
+  ) => HttpCacheEntry | undefined | Promise<HttpCacheEntry | undefined>;
+  /** Store an entry */
+  set: (key: string, entry: HttpCacheEntry) => void | Promise<void>;
+  /** Remove an entry */
+  delete?: (key: string) => void | Promise<void>;
+};
+
+/**
+ * HTTP cache options
+ */
+export type HttpCacheConfig = {
+  /** Storage of the cached responses (default: in-memory store) */
+  store?: HttpCacheStore;
+  /** Also cache requests with an Authorization header, per header value (default: false) */
+  authenticated?: boolean;
+};
+
+/**
+ * HTTP cache option accepted by FetchConfig
+ *
+ * `true` enables the cache with an in-memory store.
+ */
+export type HttpCacheOption = boolean | HttpCacheConfig;
+
+/**
+ * State of a circuit
+ *
+ * `closed` circuits send requests, `open` circuits reject them with a
+ * CircuitOpenError until the cool-down ends, and `half-open` circuits let
+ * trial requests through to decide whether to close again.
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Request passing through a circuit breaker
+ */
+export type CircuitRequest = {
+  /** Fully resolved request URL */
+  url: string;
+  /** HTTP method */
+  method: string;
+  /** Service the request is sent to, if any */
+  service?: string;
+  /** Endpoint metadata, when the request comes from a generated hook */
+  endpoint?: EndpointMeta;
+};
+
+/**
+ * Circuit breaker options
+ *
+ * @example
+ * ```typescript
+ * const config: CircuitBreakerConfig = {
+ *   failureThreshold: 0.5,
+ *   minimumRequests: 10,
+ *   cooldown: 15_000,
+ * };
+ * ```
+ */
+export type CircuitBreakerConfig = {
+  /** Group requests sharing a circuit by service (then endpoint group), by endpoint group or by a custom key (default: "service") */
+  keyBy?: "service" | "group" | ((request: CircuitRequest) => string | undefined);
+  /** Failure rate between 0 and 1 opening the circuit (default: 0.5) */
+  failureThreshold?: number;
+  /** Number of recent outcomes needed before the failure rate is evaluated (default: 5) */
+  minimumRequests?: number;
+  /** Number of recent outcomes the failure rate is computed over (default: 20) */
+  windowSize?: number;
+  /** Milliseconds an open circuit rejects requests before letting trial requests through (default: 30000) */
+  cooldown?: number;
+  /** Number of trial requests let through while half-open (default: 1) */
+  halfOpenRequests?: number;
+  /** Whether a response or error counts as a failure (default: network errors, timeouts and 5xx responses) */
+  isFailure?: (outcome: { response?: TransportResponse; error?: unknown }) => boolean;
+};
+
+/**
+ * Listener notified when a circuit changes state
+ */
+export type CircuitListener = (key: string, state: CircuitState) => void;
+
+/**
+ * Circuit breaker failing fast while a service or endpoint group is down
+ */
+export type CircuitBreaker = {
+  /** Run a request unless its circuit is open */
+  execute: (
+    request: CircuitRequest,
+    task: () => Promise<TransportResponse>,
+    signal?: AbortSignal | null
+  ) => Promise<TransportResponse>;
+  /** Current state of a circuit (circuits without requests are closed) */
+  getState: (key: string) => CircuitState;
+  /** Current state of every circuit that is not closed, a new object after each change */
+  getOpenCircuits: () => Record<string, CircuitState>;
+  /** Listen to state changes, returning a function removing the listener */
+  subscribe: (listener: CircuitListener) => () => void;
+  /** Close a circuit, or every circuit, and forget its recent outcomes */
+  reset: (key?: string) => void;
+};
+
+/**
+ * Fields shared by the lifecycle events of a request
+ */
+export type RequestEventBase = {
+  /** Fully resolved request URL */
+  url: string;
+  /** HTTP method */
+  method: string;
+  /** Endpoint metadata, when the request comes from a generated hook */
+  endpoint?: EndpointMeta;
+  /** Path parameters, validated when the endpoint declares paramsSchema */
+  params?: Record<string, unknown>;
+  /** Query parameters, validated when the endpoint declares querySchema */
+  query?: unknown;
+  /** Milliseconds since the epoch at which the event occurred */
+  timestamp: number;
+};
+
+/**
+ * Event emitted when a request is about to be sent, after the request middleware
+ */
+export type RequestStartEvent = RequestEventBase & {
+  type: "request:start";
+  /** Byte size of the request body, when it is a string or a Blob */
+  size?: number;
+};
+
+/**
+ * Event emitted when a response is received, whatever its status
+ */
+export type RequestResponseEvent = RequestEventBase & {
+  type: "request:response";
+  status: number;
+  /** Milliseconds since the request started, including retries */
+  duration: number;
+  /** Byte size of the response body, from the Content-Length header */
+  size?: number;
+};
+
+/**
+ * Event emitted before a failed attempt is retried
+ */
+export type RequestRetryEvent = RequestEventBase & {
+  type: "request:retry";
+  /** Number of the attempt that failed (starting at 1) */
+  attempt: number;
+  /** Milliseconds before the next attempt */
+  delay: number;
+  /** Status of the failed attempt, when the server responded */
+  status?: number;
+  /** Error of the failed attempt, when it did not get a response */
+  error?: unknown;
 };
 
 /**
- * Structured error object for API errors
+ * Event emitted when a request fails without a response (network error,
+ * timeout, abort or open circuit)
+ */
+export type RequestErrorEvent = RequestEventBase & {
+  type: "request:error";
+  /** Milliseconds since the request started, including retries */
+  duration: number;
+  error: RequestError;
+};
+
+/**
+ * Event emitted when params, query, body, response or error body fail their schema
+ */
+export type ValidationErrorEvent = Omit<RequestEventBase, "url"> & {
+  type: "validation:error";
+  /** Request URL, or the path template when the path parameters are invalid */
+  url: string;
+  target: ValidationTarget;
+  error: SchemaValidationError;
+};
+
+/**
+ * Event emitted when queries are invalidated, manually or after a mutation
+ */
+export type CacheInvalidateEvent = {
+  type: "cache:invalidate";
+  /** Group whose queries are invalidated */
+  group: string;
+  /** Endpoint whose queries are invalidated, absent for whole groups */
+  endpoint?: EndpointMeta;
+  /** Path parameters narrowing the invalidation */
+  params?: Record<string, unknown>;
+  /** Query key prefix passed to invalidateQueries */
+  queryKey: readonly unknown[];
+  /** Milliseconds since the epoch at which the event occurred */
+  timestamp: number;
+};
+
+/**
+ * Event emitted when a mutation hook settles, before automatic invalidation
+ */
+export type MutationSettleEvent = {
+  type: "mutation:settle";
+  status: "success" | "error";
+  endpoint: EndpointMeta;
+  /** Path parameters of the mutation */
+  params?: Record<string, unknown>;
+  /** Milliseconds the mutation function ran for */
+  duration: number;
+  /** Error the mutation failed with */
+  error?: unknown;
+  /** Milliseconds since the epoch at which the event occurred */
+  timestamp: number;
+};
+
+/**
+ * Lifecycle event emitted to FetchConfig.onEvent, discriminated by `type`
+ *
+ * @example
+ * ```typescript
+ * const onEvent = (event: APIEvent) => {
+ *   if (event.type === 'request:response') {
+ *     log(`${event.endpoint?.group}.${event.endpoint?.name}`, event.status, event.duration);
+ *   }
+ * };
+ * ```
+ */
+export type APIEvent =
+  | RequestStartEvent
+  | RequestResponseEvent
+  | RequestRetryEvent
+  | RequestErrorEvent
+  | ValidationErrorEvent
+  | CacheInvalidateEvent
+  | MutationSettleEvent;
+
+/**
+ * Listener receiving lifecycle events
+ *
+ * Errors thrown by the listener are ignored so that diagnostics never fail
+ * a request.
+ */
+export type APIEventListener = (event: APIEvent) => void;
+
+/**
+ * Value of a span attribute
+ */
+export type SpanAttributeValue = string | number | boolean;
+
+/**
+ * Attributes recorded on a span
+ */
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>;
+
+/**
+ * Identity of a span, propagated in the `traceparent` header
+ *
+ * Spans whose trace or span ID is all zeros are not propagated.
+ */
+export type SpanContext = {
+  /** 32 lowercase hex characters */
+  traceId: string;
+  /** 16 lowercase hex characters */
+  spanId: string;
+  /** Trace flags, 1 when the trace is sampled */
+  traceFlags: number;
+};
+
+/**
+ * Status of a span, with the OpenTelemetry codes: 0 unset, 1 ok, 2 error
+ */
+export type SpanStatus = {
+  code: 0 | 1 | 2;
+  message?: string;
+};
+
+/**
+ * Options of a new span
+ */
+export type SpanOptions = {
+  /** Span kind, with the OpenTelemetry values (the fetcher uses 2, client) */
+  kind?: number;
+  /** Attributes recorded when the span starts */
+  attributes?: SpanAttributes;
+};
+
+/**
+ * Span recording a single request, structurally compatible with OpenTelemetry spans
+ */
+export type Span = {
+  spanContext: () => SpanContext;
+  setAttribute: (key: string, value: SpanAttributeValue) => unknown;
+  setStatus: (status: SpanStatus) => unknown;
+  recordException: (exception: Error | string) => unknown;
+  end: () => unknown;
+};
+
+/**
+ * Tracer creating the request spans
+ *
+ * An OpenTelemetry tracer (`trace.getTracer("api")`) can be passed as is.
+ *
+ * @example
+ * ```typescript
+ * import { trace } from '@opentelemetry/api';
+ *
+ * const api = createQueryAPI(config, {
+ *   tracing: { tracer: trace.getTracer('web-app') },
+ * });
+ * ```
+ */
+export type Tracer = {
+  startSpan: (name: string, options?: SpanOptions) => Span;
+};
+
+/**
+ * Tracing options
+ */
+export type TracingConfig = {
+  /** Tracer creating the request spans (default: noopTracer) */
+  tracer?: Tracer;
+  /**
+   * Send the `traceparent` header with all requests, none, the requests to
+   * the listed origins, or the requests whose URL matches (default:
+   * same-origin requests only)
+   */
+  propagate?: boolean | string[] | ((url: string) => boolean);
+};
+
+/**
+ * Retry policy for failed requests
+ *
+ * @example
+ * ```typescript
+ * const retry: RetryConfig = {
+ *   attempts: 4,
+ *   baseDelay: 500,
+ *   statuses: [429, 503],
+ * };
+ * ```
+ */
+export type RetryConfig = {
+  /** Maximum number of attempts, including the first one (default: 3) */
+  attempts?: number;
+  /** Base delay in milliseconds for exponential backoff (default: 300) */
+  baseDelay?: number;
+  /** Upper bound for a single delay in milliseconds (default: 10000) */
+  maxDelay?: number;
+  /** Randomize delays to avoid synchronized retries (default: true) */
+  jitter?: boolean;
+  /** HTTP status codes that trigger a retry (default: 408, 429, 502, 503, 504) */
+  statuses?: number[];
+  /** Wait for the delay announced by the Retry-After header (default: true) */
+  respectRetryAfter?: boolean;
+  /** Also retry non-idempotent POST and PATCH requests (default: false) */
+  retryNonIdempotent?: boolean;
+};
+
+/**
+ * Retry option accepted by FetchConfig, EndpointConfig and FetchOptions
+ *
+ * - `false` disables retries
+ * - `true` enables retries with the default policy
+ * - a number sets the maximum number of attempts
+ * - an object customizes the policy
+ */
+export type RetryOption = boolean | number | RetryConfig;
+
+/**
+ * Format used to encode arrays in query strings
+ *
+ * - `repeat`: `tags=a&tags=b`
+ * - `brackets`: `tags[]=a&tags[]=b`
+ * - `comma`: `tags=a,b`
+ * - `indices`: `tags[0]=a&tags[1]=b`
+ */
+export type QueryArrayFormat = "repeat" | "brackets" | "comma" | "indices";
+
+/**
+ * Query string serialization options
+ *
+ * @example
+ * ```typescript
+ * const querySerializer: QuerySerializerConfig = {
+ *   arrayFormat: 'brackets',
+ *   objectFormat: 'deepObject', // filter[age][gte]=18
+ *   dateFormat: 'iso',
+ * };
+ * ```
+ */
+export type QuerySerializerConfig = {
+  /** How arrays are encoded (default: "repeat") */
+  arrayFormat?: QueryArrayFormat;
+  /** Encode nested objects as JSON or as `a[b][c]=` keys (default: "json") */
+  objectFormat?: "json" | "deepObject";
+  /** Encode dates with toISOString or String() (default: "string") */
+  dateFormat?: "iso" | "string";
+};
+
+/**
+ * Query serializer option accepted by FetchConfig, EndpointConfig and FetchOptions
+ *
+ * A string is shorthand for `{ arrayFormat }`.
+ */
+export type QuerySerializerOption = QueryArrayFormat | QuerySerializerConfig;
+
+/**
+ * Key case conversion options
+ *
+ * Request bodies and query parameters are converted from camelCase to
+ * snake_case before they are sent, and response and error bodies from
+ * snake_case to camelCase before they are validated, so schemas describe the
+ * camelCase side.
+ *
+ * @example
+ * ```typescript
+ * const caseConversion: CaseConversionConfig = {
+ *   exclude: ['metadata'], // sent and received as is
+ * };
+ * ```
+ */
+export type CaseConversionConfig = {
+  /** Keys, in either casing, whose values are not converted */
+  exclude?: string[];
+};
+
+/**
+ * Case conversion option accepted by FetchConfig, EndpointConfig and FetchOptions
+ *
+ * - `true` converts keys with the default options
+ * - `false` disables the conversion (e.g. for a single endpoint)
+ * - an object customizes the conversion
+ */
+export type CaseConversionOption = boolean | CaseConversionConfig;
+
+/**
+ * Idempotency key options
+ *
+ * A key is generated once per logical mutation call and reused by every
+ * retry attempt, token refresh replay and mutation resumed in the same
+ * session, so that the server can discard duplicates. Mutations resumed
+ * after a reload get a new key.
+ *
+ * @example
+ * ```typescript
+ * const idempotency: IdempotencyConfig = {
+ *   header: 'X-Idempotency-Key',
+ *   generateKey: () => ulid(),
+ * };
+ * ```
+ */
+export type IdempotencyConfig = {
+  /** Header carrying the key (default: "Idempotency-Key") */
+  header?: string;
+  /** Methods sending a key (default: POST and PATCH) */
+  methods?: HTTPMethod[];
+  /** Generate a new key (default: crypto.randomUUID) */
+  generateKey?: () => string;
+};
+
+/**
+ * Idempotency option accepted by FetchConfig, EndpointConfig and FetchOptions
+ *
+ * - `true` sends keys with the default options
+ * - `false` disables keys (e.g. for a single endpoint)
+ * - an object customizes the keys
+ */
+export type IdempotencyOption = boolean | IdempotencyConfig;
+
+/**
+ * Shape shared by HttpError and NetworkError
  */
 export type APIError = {
   status: number;
@@ -168,7 +1146,7 @@ export type APIError = {
 };
 
 /**
- * Validation error from Zod schema validation
+ * Shape of SchemaValidationError raised for Zod schema validation failures
  */
 export type ValidationError = {
   type: "validation";
@@ -195,11 +1173,30 @@ export type ValidationError = {
 export type FetchOptions<TBody = unknown, TQuery = unknown> = {
   method: string;
   body?: TBody;
-  params?: Record<string, string | number>;
+  params?: Record<string, string | number | undefined>;
+  paramsSchema?: z.ZodSchema;
   query?: TQuery;
+  querySchema?: z.ZodSchema;
+  querySerializer?: QuerySerializerOption;
   signal?: AbortSignal;
   schema?: z.ZodSchema;
+  responses?: ResponseSchemas;
   bodySchema?: z.ZodSchema;
+  retry?: RetryOption;
+  timeout?: number;
+  errors?: ErrorSchemas;
+  transform?: (data: any) => unknown;
+  unwrap?: boolean;
+  caseConversion?: CaseConversionOption;
+  service?: string;
+  baseURL?: string;
+  headers?: Record<string, string | undefined>;
+  endpointHeaders?: EndpointHeaders;
+  idempotency?: IdempotencyOption;
+  idempotencyKey?: string;
+  priority?: RequestPriority;
+  onResponseMeta?: (meta: ResponseMeta) => void;
+  endpoint?: EndpointMeta;
 };
 
 /**
@@ -237,49 +1234,145 @@ export type FetcherFunction = <
 /**
  * Extract path parameters from a URL path template
  *
- * Parses path templates with colon-prefixed parameters (e.g., "/users/:id")
- * and extracts parameter names as a typed object.
+ * Parses path templates with colon-prefixed parameters (e.g., "/users/:id"),
+ * optional parameters ("/files/:id?"), wildcards ("/files/*path") and
+ * OpenAPI-style placeholders ("/users/{id}") and extracts parameter names as
+ * a typed object.
  *
  * @example
  * ```typescript
  * type Params1 = ExtractParams<"/users/:id">; // { id: string | number }
- * type Params2 = ExtractParams<"/users/:userId/posts/:postId">; // { userId: string | number, postId: string | number }
- * type Params3 = ExtractParams<"/users">; // {} (no params)
+ * type Params2 = ExtractParams<"/users/:userId/posts/{postId}">; // { userId: string | number, postId: string | number }
+ * type Params3 = ExtractParams<"/files/:id?">; // { id?: string | number }
+ * type Params4 = ExtractParams<"/files/*path">; // { path: string }
+ * type Params5 = ExtractParams<"/users">; // {} (no params)
  * ```
  */
 export type ExtractParams<TPath extends string> =
-  // Handle multiple parameters: match pattern with param followed by more path segments
-  TPath extends `${infer _Start}:${infer Param}/${infer Rest}`
-    ? { [K in Param]: string | number } & ExtractParams<`/${Rest}`>
-    : // Handle single parameter at end of path
-    TPath extends `${infer _Start}:${infer Param}`
+  // Handle each path segment separately
+  TPath extends `${infer Segment}/${infer Rest}`
+    ? ExtractSegmentParams<Segment> & ExtractParams<Rest>
+    : ExtractSegmentParams<TPath>;
+
+/**
+ * Extract the parameters of a single path segment
+ */
+type ExtractSegmentParams<TSegment extends string> =
+  // Optional parameter
+  TSegment extends `${string}:${infer Param}?`
+    ? { [K in Param]?: string | number }
+    : // Required parameter
+    TSegment extends `${string}:${infer Param}`
     ? { [K in Param]: string | number }
+    : // Wildcard spanning the rest of the path
+    TSegment extends `${string}*${infer Param}`
+    ? { [K in Param]: string }
+    : // OpenAPI-style placeholders, possibly several per segment
+    TSegment extends `${string}{${infer Param}}${infer Rest}`
+    ? { [K in Param]: string | number } & ExtractSegmentParams<Rest>
     : // No parameters found - return empty object
       {};
 
+/**
+ * Infer path parameter type from endpoint configuration
+ *
+ * If a paramsSchema is provided, infers the type accepted by the schema (its
+ * input, before coercion). Otherwise, extracts the parameters from the path.
+ *
+ * @example
+ * ```typescript
+ * type Params1 = InferParams<{
+ *   path: '/users/:id',
+ *   paramsSchema: z.ZodObject<{ id: z.ZodString }>
+ * }>; // { id: string }
+ * type Params2 = InferParams<{ path: '/users/:id' }>; // { id: string | number }
+ * ```
+ */
+export type InferParams<TEndpoint extends { path: string }> =
+  TEndpoint extends { paramsSchema: z.ZodType<any, any, infer TParams> }
+    ? TParams
+    : ExtractParams<TEndpoint["path"]>;
+
 /**
  * Infer response type from endpoint configuration
  *
- * If a Zod schema is provided, infers the type from the schema.
- * Otherwise, returns unknown type.
+ * Endpoints declaring a `transform` get its (awaited) return type. Endpoints
+ * declaring `responses` get the union of the declared shapes, with
+ * `undefined` for statuses without content, or `void` when no status has
+ * content. Otherwise the type is inferred from the Zod schema if provided
+ * (its output, after transforms), or unknown. The global unwrap of
+ * FetchConfig, passed as `TUnwrap`, applies to the validated type unless the
+ * endpoint sets `unwrap: false`.
  *
  * @example
  * ```typescript
  * type Response1 = InferResponse<{ schema: z.ZodObject<{ id: z.ZodNumber }> }>; // { id: number }
  * type Response2 = InferResponse<{ method: 'GET', path: '/users' }>; // unknown
+ * type Response3 = InferResponse<{ responses: { 200: typeof UserSchema; 202: typeof JobSchema } }>; // User | Job
+ * type Response4 = InferResponse<{ responses: { 204: null } }>; // void
+ * type Response5 = InferResponse<{ transform: (envelope: { data: User[] }) => User[] }>; // User[]
+ * type Response6 = InferResponse<{ schema: typeof EnvelopeSchema }, "data">; // User[]
  * ```
  */
-export type InferResponse<TEndpoint> = TEndpoint extends {
-  schema: z.ZodSchema<infer T>;
+export type InferResponse<
+  TEndpoint,
+  TUnwrap extends UnwrapOption | undefined = undefined
+> = TEndpoint extends {
+  transform: (...args: any[]) => infer TResult;
 }
+  ? Awaited<TResult>
+  : TEndpoint extends { unwrap: false }
+  ? ValidatedResponse<TEndpoint>
+  : Unwrapped<ValidatedResponse<TEndpoint>, TUnwrap>;
+
+/**
+ * Response type after schema validation, before unwrap and transform
+ */
+type ValidatedResponse<TEndpoint> = TEndpoint extends {
+  responses: infer TResponses;
+}
+  ? [DeclaredResponse<TResponses>] extends [undefined]
+    ? void
+    : DeclaredResponse<TResponses>
+  : TEndpoint extends {
+      schema: z.ZodType<infer T, any, any>;
+    }
   ? T
   : unknown;
 
+/**
+ * Response type after the global unwrap
+ *
+ * A key unwraps the object responses having that property, like the fetcher
+ * does at runtime, and a function gives its (awaited) return type.
+ */
+export type Unwrapped<TData, TUnwrap> = TUnwrap extends string
+  ? TData extends { [K in TUnwrap]: infer TValue }
+    ? TValue
+    : TData
+  : TUnwrap extends (...args: any[]) => infer TResult
+  ? Awaited<TResult>
+  : TData;
+
+/**
+ * Response union built from a ResponseSchemas map
+ */
+type DeclaredResponse<TResponses> = {
+  [TStatus in keyof TResponses]: TResponses[TStatus] extends z.ZodSchema<
+    infer T
+  >
+    ? T
+    : TResponses[TStatus] extends null
+    ? undefined
+    : never;
+}[keyof TResponses];
+
 /**
  * Infer request body type from endpoint configuration
  *
  * Only endpoints with POST, PUT, or PATCH methods can have request bodies.
- * If a bodySchema is provided, infers the type from the Zod schema.
+ * If a bodySchema is provided, infers the type accepted by the Zod schema
+ * (its input, before transforms and defaults are applied).
  * Otherwise, returns unknown for backward compatibility.
  * For other methods, the body type is never (not allowed).
  *
@@ -301,15 +1394,16 @@ export type InferResponse<TEndpoint> = TEndpoint extends {
 export type InferBody<TEndpoint> = TEndpoint extends {
   method: "POST" | "PUT" | "PATCH";
 }
-  ? TEndpoint extends { bodySchema: z.ZodSchema<infer T> }
-    ? T // Infer from bodySchema if provided
+  ? TEndpoint extends { bodySchema: z.ZodType<any, any, infer T> }
+    ? T // Infer the schema input from bodySchema if provided
     : unknown // Fallback to unknown for backward compatibility
   : never; // Body not allowed for GET/DELETE
 
 /**
  * Infer query parameter type from endpoint configuration
  *
- * If a querySchema is provided, infers the type from the Zod schema.
+ * If a querySchema is provided, infers the type accepted by the schema (its
+ * input, so fields with defaults are optional).
  * Otherwise, returns a flexible record type supporting common query parameter types.
  *
  * @example
@@ -325,7 +1419,177 @@ export type InferBody<TEndpoint> = TEndpoint extends {
  * ```
  */
 export type InferQuery<TEndpoint> = TEndpoint extends {
-  querySchema: z.ZodSchema<infer T>;
+  querySchema: z.ZodType<any, any, infer T>;
 }
   ? T
   : Record<string, string | number | boolean | undefined>;
+
+/**
+ * Infer the error type of an endpoint
+ *
+ * Endpoints declaring `errors` get a union of HttpError types keyed on the
+ * status code, each with the body type of its schema. Undeclared statuses use
+ * the `default` schema, or `unknown` without one, and exclude the declared
+ * ones so that comparing `error.status` narrows the union. Network, timeout,
+ * abort and validation errors are always part of the union.
+ *
+ * Error bodies that do not match their schema are kept as they are, with the
+ * SchemaValidationError as the `cause` of the HttpError.
+ *
+ * @example
+ * ```typescript
+ * type Errors = InferError<{
+ *   errors: { 404: z.ZodObject<{ message: z.ZodString }> };
+ * }>;
+ * // HttpError<404, { message: string }> | HttpError<300 | ... | 599, unknown> | NetworkError | ...
+ *
+ * if (error.status === 404) {
+ *   error.data.message; // string
+ * }
+ * ```
+ */
+export type InferError<TEndpoint> = TEndpoint extends { errors: infer TErrors }
+  ?
+      | DeclaredHttpError<TErrors>
+      | NetworkError
+      | TimeoutError
+      | AbortError
+      | CircuitOpenError
+      | SchemaValidationError
+  : FetchError;
+
+/**
+ * Union of the integers from 0 to N - 1
+ */
+type NumberRange<
+  N extends number,
+  TAcc extends number[] = []
+> = TAcc["length"] extends N
+  ? TAcc[number]
+  : NumberRange<N, [...TAcc, TAcc["length"]]>;
+
+/**
+ * Statuses of the responses rejected with an HttpError (300 to 599)
+ */
+export type HttpErrorStatus = Exclude<NumberRange<600>, NumberRange<300>>;
+
+/**
+ * HttpError union built from an ErrorSchemas map
+ */
+type DeclaredHttpError<TErrors> =
+  | {
+      [TStatus in keyof TErrors]: TStatus extends number
+        ? TErrors[TStatus] extends z.ZodSchema<infer TData>
+          ? HttpError<TStatus, TData>
+          : never
+        : never;
+    }[keyof TErrors]
+  | HttpError<
+      Exclude<HttpErrorStatus, keyof TErrors>,
+      TErrors extends { default: z.ZodSchema<infer TData> } ? TData : unknown
+    >;
+
+// ============================================================================
+// Case Conversion Utilities
+// ============================================================================
+
+/**
+ * Convert a snake_case string type to camelCase
+ *
+ * Mirrors the runtime conversion: leading and trailing underscores are kept.
+ *
+ * @example
+ * ```typescript
+ * type Key = CamelCase<"created_at">; // "createdAt"
+ * ```
+ */
+export type CamelCase<S extends string> = S extends `_${infer Rest}`
+  ? `_${CamelCase<Rest>}`
+  : CamelCaseWords<S>;
+
+/**
+ * Join the underscore-separated words of a string, see CamelCase
+ */
+type CamelCaseWords<S extends string> = S extends `${infer Head}_${infer Tail}`
+  ? Tail extends ""
+    ? S
+    : `${Head}${CamelCaseWords<Capitalize<Tail>>}`
+  : S;
+
+/**
+ * Convert a camelCase string type to snake_case
+ *
+ * Mirrors the runtime conversion: every uppercase letter after the first
+ * character starts a new word.
+ *
+ * @example
+ * ```typescript
+ * type Key = SnakeCase<"createdAt">; // "created_at"
+ * ```
+ */
+export type SnakeCase<S extends string> = S extends `${infer First}${infer Rest}`
+  ? `${Lowercase<First>}${SnakeCaseWords<Rest>}`
+  : S;
+
+/**
+ * Prefix the uppercase letters of a string with underscores, see SnakeCase
+ */
+type SnakeCaseWords<S extends string> = S extends `${infer Char}${infer Rest}`
+  ? `${Char extends Lowercase<Char> ? Char : `_${Lowercase<Char>}`}${SnakeCaseWords<Rest>}`
+  : S;
+
+/**
+ * Values whose keys are never converted
+ */
+type OpaqueValue =
+  | Date
+  | RegExp
+  | Map<unknown, unknown>
+  | Set<unknown>
+  | ((...args: any[]) => unknown);
+
+/**
+ * Convert the keys of an object type to camelCase, recursively
+ *
+ * Useful to type snake_case wire payloads, e.g. in mocks or fixtures, while
+ * the Zod schemas describe the camelCase side. Keys excluded at runtime are
+ * not reflected in the type.
+ *
+ * @example
+ * ```typescript
+ * type User = CamelCaseKeys<{ user_id: number; created_at: string }>;
+ * // { userId: number; createdAt: string }
+ * ```
+ */
+export type CamelCaseKeys<T> = T extends OpaqueValue
+  ? T
+  : T extends readonly unknown[]
+  ? { [K in keyof T]: CamelCaseKeys<T[K]> }
+  : T extends object
+  ? {
+      [K in keyof T as K extends string ? CamelCase<K> : K]: CamelCaseKeys<
+        T[K]
+      >;
+    }
+  : T;
+
+/**
+ * Convert the keys of an object type to snake_case, recursively
+ *
+ * @example
+ * ```typescript
+ * type UserPayload = SnakeCaseKeys<z.infer<typeof UserSchema>>;
+ * // { user_id: number; created_at: string }
+ * ```
+ */
+export type SnakeCaseKeys<T> = T extends OpaqueValue
+  ? T
+  : T extends readonly unknown[]
+  ? { [K in keyof T]: SnakeCaseKeys<T[K]> }
+  : T extends object
+  ? {
+      [K in keyof T as K extends string ? SnakeCase<K> : K]: SnakeCaseKeys<
+        T[K]
+      >;
+    }
+  : T;
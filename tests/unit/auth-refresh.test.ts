@@ -0,0 +1,218 @@
+import { describe, it, expect, vi } from "vitest";
+import { createFetcher } from "../../src/fetch/createFetcher";
+import { createMemoryTransport } from "../../src/fetch/transports";
+
+describe("Auth Refresh", () => {
+  /**
+   * Transport accepting only the current token of the given store
+   */
+  const createProtectedTransport = (store: { valid: string }) =>
+    createMemoryTransport((request) =>
+      request.headers.Authorization === `Bearer ${store.valid}`
+        ? { body: { ok: true } }
+        : { status: 401, body: { message: "Token expired" } }
+    );
+
+  it("should send the token returned by getToken", async () => {
+    const store = { valid: "a" };
+    const transport = createProtectedTransport(store);
+    const fetcher = createFetcher({
+      transport,
+      auth: {
+        getToken: () => "a",
+        refreshToken: vi.fn(),
+      },
+    });
+
+    await expect(fetcher("/me", { method: "GET" })).resolves.toEqual({
+      ok: true,
+    });
+    expect(transport.requests[0].headers.Authorization).toBe("Bearer a");
+  });
+
+  it("should refresh once and replay concurrent 401 requests", async () => {
+    const store = { valid: "new", token: "old" };
+    const transport = createProtectedTransport(store);
+    const refreshToken = vi.fn(async () => {
+      store.token = "new";
+    });
+
+    const fetcher = createFetcher({
+      transport,
+      auth: { getToken: () => store.token, refreshToken },
+    });
+
+    const results = await Promise.all([
+      fetcher("/a", { method: "GET" }),
+      fetcher("/b", { method: "GET" }),
+      fetcher("/c", { method: "POST", body: { value: 1 } }),
+    ]);
+
+    expect(results).toEqual([{ ok: true }, { ok: true }, { ok: true }]);
+    expect(refreshToken).toHaveBeenCalledTimes(1);
+    expect(transport.requests).toHaveLength(6);
+    expect(transport.requests[5]).toMatchObject({
+      url: "/c",
+      body: JSON.stringify({ value: 1 }),
+      headers: { Authorization: "Bearer new" },
+    });
+  });
+
+  it("should hold requests issued while a refresh is pending", async () => {
+    const store = { valid: "new", token: "old" };
+    const transport = createProtectedTransport(store);
+    let finishRefresh!: () => void;
+    const refreshToken = vi.fn(
+      () =>
+        new Promise<void>((resolve) => {
+          finishRefresh = () => {
+            store.token = "new";
+            resolve();
+          };
+        })
+    );
+
+    const fetcher = createFetcher({
+      transport,
+      auth: { getToken: () => store.token, refreshToken },
+    });
+
+    const first = fetcher("/a", { method: "GET" });
+    await vi.waitFor(() => expect(refreshToken).toHaveBeenCalled());
+
+    const second = fetcher("/b", { method: "GET" });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(transport.requests.map((request) => request.url)).toEqual(["/a"]);
+
+    finishRefresh();
+
+    await expect(Promise.all([first, second])).resolves.toEqual([
+      { ok: true },
+      { ok: true },
+    ]);
+    expect(transport.requests.map((request) => request.url)).toEqual([
+      "/a",
+      "/a",
+      "/b",
+    ]);
+  });
+
+  it("should call onAuthFailure and reject when the refresh fails", async () => {
+    const store = { valid: "new" };
+    const onAuthFailure = vi.fn();
+    const fetcher = createFetcher({
+      transport: createProtectedTransport(store),
+      auth: {
+        getToken: () => "old",
+        refreshToken: async () => {
+          throw new Error("Refresh token revoked");
+        },
+        onAuthFailure,
+      },
+    });
+
+    const results = await Promise.allSettled([
+      fetcher("/a", { method: "GET" }),
+      fetcher("/b", { method: "GET" }),
+    ]);
+
+    expect(results).toEqual([
+      { status: "rejected", reason: expect.objectContaining({ status: 401 }) },
+      { status: "rejected", reason: expect.objectContaining({ status: 401 }) },
+    ]);
+    expect(onAuthFailure).toHaveBeenCalledTimes(1);
+    expect(onAuthFailure).toHaveBeenCalledWith(
+      expect.objectContaining({ message: "Refresh token revoked" })
+    );
+  });
+
+  it("should not refresh again for 401s arriving after a failed refresh", async () => {
+    let releaseSlow: () => void = () => undefined;
+    const slow = new Promise<void>((resolve) => {
+      releaseSlow = resolve;
+    });
+    const transport = createMemoryTransport(async (request) => {
+      if (request.url === "/slow") {
+        await slow;
+      }
+      return { status: 401 };
+    });
+    const refreshToken = vi.fn(async () => {
+      throw new Error("Refresh token revoked");
+    });
+    const onAuthFailure = vi.fn();
+    const fetcher = createFetcher({
+      transport,
+      auth: { getToken: () => "old", refreshToken, onAuthFailure },
+    });
+
+    const pendingSlow = fetcher("/slow", { method: "GET" });
+    await expect(fetcher("/a", { method: "GET" })).rejects.toMatchObject({
+      status: 401,
+    });
+    releaseSlow();
+    await expect(pendingSlow).rejects.toMatchObject({ status: 401 });
+
+    expect(refreshToken).toHaveBeenCalledTimes(1);
+    expect(onAuthFailure).toHaveBeenCalledTimes(1);
+    expect(transport.requests.map(({ url }) => url)).toEqual(["/slow", "/a"]);
+  });
+
+  it("should cancel the body of a 401 before replaying", async () => {
+    const cancel = vi.fn();
+    let attempts = 0;
+    const fetcher = createFetcher({
+      transport: async (request) =>
+        ++attempts === 1
+          ? {
+              url: request.url,
+              ok: false,
+              status: 401,
+              statusText: "Unauthorized",
+              headers: new Headers(),
+              body: new ReadableStream({ cancel }),
+              json: async () => ({}),
+              text: async () => "",
+            }
+          : new Response("{}", {
+              headers: { "content-type": "application/json" },
+            }),
+      auth: { getToken: () => "token", refreshToken: async () => undefined },
+    });
+
+    await expect(fetcher("/me", { method: "GET" })).resolves.toEqual({});
+    expect(cancel).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not replay more than once", async () => {
+    const transport = createMemoryTransport(() => ({ status: 401 }));
+    const refreshToken = vi.fn(async () => undefined);
+    const fetcher = createFetcher({
+      transport,
+      auth: { getToken: () => "token", refreshToken },
+    });
+
+    await expect(fetcher("/me", { method: "GET" })).rejects.toMatchObject({
+      status: 401,
+    });
+    expect(refreshToken).toHaveBeenCalledTimes(1);
+    expect(transport.requests).toHaveLength(2);
+  });
+
+  it("should support a custom header and scheme", async () => {
+    const transport = createMemoryTransport(() => ({ body: {} }));
+    const fetcher = createFetcher({
+      transport,
+      auth: {
+        getToken: async () => "secret",
+        refreshToken: vi.fn(),
+        header: "X-API-Key",
+        scheme: "",
+      },
+    });
+
+    await fetcher("/me", { method: "GET" });
+
+    expect(transport.requests[0].headers["X-API-Key"]).toBe("secret");
+  });
+});
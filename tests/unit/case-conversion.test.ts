@@ -0,0 +1,167 @@
+import { describe, it, expect, expectTypeOf } from "vitest";
+import { z } from "zod";
+import { createFetcher } from "../../src/fetch/createFetcher";
+import { createMemoryTransport } from "../../src/fetch/transports";
+import {
+  convertKeys,
+  resolveCaseConversion,
+  toCamelCase,
+  toSnakeCase,
+} from "../../src/fetch/caseConversion";
+import { createQueryAPI } from "../../src/createQueryAPI";
+import type {
+  CamelCase,
+  CamelCaseKeys,
+  SnakeCase,
+  SnakeCaseKeys,
+} from "../../src/types";
+
+describe("Case Conversion", () => {
+  describe("key conversion", () => {
+    it("should convert between camelCase and snake_case", () => {
+      expect(toSnakeCase("createdAt")).toBe("created_at");
+      expect(toSnakeCase("line2Text")).toBe("line2_text");
+      expect(toSnakeCase("id")).toBe("id");
+      expect(toCamelCase("created_at")).toBe("createdAt");
+      expect(toCamelCase("line2_text")).toBe("line2Text");
+      expect(toCamelCase("_links")).toBe("_links");
+      expect(toCamelCase("trailing_")).toBe("trailing_");
+    });
+
+    it("should convert nested objects and arrays", () => {
+      const at = new Date(0);
+
+      expect(
+        convertKeys(
+          { userId: 1, posts: [{ postTitle: "a", publishedAt: at }] },
+          "snake"
+        )
+      ).toEqual({
+        user_id: 1,
+        posts: [{ post_title: "a", published_at: at }],
+      });
+    });
+
+    it("should keep the values of excluded keys", () => {
+      expect(
+        convertKeys(
+          { user_meta: { theme_id: 1 }, other_meta: { theme_id: 1 } },
+          "camel",
+          ["userMeta"]
+        )
+      ).toEqual({ userMeta: { theme_id: 1 }, otherMeta: { themeId: 1 } });
+    });
+
+    it("should resolve endpoint overrides", () => {
+      expect(resolveCaseConversion(undefined, undefined)).toBeUndefined();
+      expect(resolveCaseConversion(true, undefined)).toEqual({});
+      expect(resolveCaseConversion(true, false)).toBeUndefined();
+      expect(
+        resolveCaseConversion({ exclude: ["metadata"] }, { exclude: ["payload"] })
+      ).toEqual({ exclude: ["metadata", "payload"] });
+    });
+  });
+
+  describe("createFetcher", () => {
+    it("should send snake_case bodies and queries", async () => {
+      const transport = createMemoryTransport(() => ({ status: 201 }));
+      const fetcher = createFetcher({ transport, caseConversion: true });
+
+      await fetcher("/users", {
+        method: "POST",
+        body: { firstName: "John" },
+        query: { sendEmail: true },
+        bodySchema: z.object({ firstName: z.string() }),
+        querySchema: z.object({ sendEmail: z.boolean() }),
+      });
+
+      expect(transport.requests[0].url).toBe("/users?send_email=true");
+      expect(transport.requests[0].body).toBe('{"first_name":"John"}');
+    });
+
+    it("should validate camelCase responses", async () => {
+      const fetcher = createFetcher({
+        transport: createMemoryTransport(() => ({
+          body: { user_id: 1, created_at: "2024-01-01" },
+        })),
+        caseConversion: true,
+      });
+
+      await expect(
+        fetcher("/users/1", {
+          method: "GET",
+          schema: z.object({ userId: z.number(), createdAt: z.string() }),
+        })
+      ).resolves.toEqual({ userId: 1, createdAt: "2024-01-01" });
+    });
+
+    it("should convert error bodies", async () => {
+      const fetcher = createFetcher({
+        transport: createMemoryTransport(() => ({
+          status: 422,
+          body: { error_code: "invalid" },
+        })),
+        caseConversion: true,
+      });
+
+      await expect(
+        fetcher("/users", {
+          method: "POST",
+          body: {},
+          errors: { 422: z.object({ errorCode: z.string() }) },
+        })
+      ).rejects.toMatchObject({ status: 422, data: { errorCode: "invalid" } });
+    });
+
+    it("should let endpoints opt out", async () => {
+      const fetcher = createFetcher({
+        transport: createMemoryTransport(() => ({ body: { user_id: 1 } })),
+        caseConversion: true,
+      });
+
+      await expect(
+        fetcher("/users/1", { method: "GET", caseConversion: false })
+      ).resolves.toEqual({ user_id: 1 });
+    });
+  });
+
+  describe("type helpers", () => {
+    it("should mirror the runtime conversion", () => {
+      expectTypeOf<CamelCase<"created_at">>().toEqualTypeOf<"createdAt">();
+      expectTypeOf<CamelCase<"_links">>().toEqualTypeOf<"_links">();
+      expectTypeOf<SnakeCase<"line2Text">>().toEqualTypeOf<"line2_text">();
+    });
+
+    it("should convert object keys recursively", () => {
+      const UserSchema = z.object({
+        userId: z.number(),
+        posts: z.array(z.object({ publishedAt: z.date() })),
+      });
+      type Wire = SnakeCaseKeys<z.infer<typeof UserSchema>>;
+
+      expectTypeOf<Wire>().toEqualTypeOf<{
+        user_id: number;
+        posts: { published_at: Date }[];
+      }>();
+      expectTypeOf<CamelCaseKeys<Wire>>().toEqualTypeOf<
+        z.infer<typeof UserSchema>
+      >();
+    });
+  });
+
+  describe("configuration validation", () => {
+    it("should reject invalid exclusion lists", () => {
+      expect(() =>
+        createQueryAPI({
+          users: {
+            list: {
+              method: "GET" as const,
+              path: "/users",
+              caseConversion: { exclude: "metadata" } as any,
+            },
+          },
+        })
+      ).toThrow('"caseConversion" must be a boolean or an object');
+    });
+  });
+});
@@ -0,0 +1,223 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createFetcher } from "../../src/fetch/createFetcher";
+import { createMemoryTransport } from "../../src/fetch/transports";
+import { createCircuitBreaker } from "../../src/fetch/circuitBreaker";
+import { CircuitOpenError, HttpError, NetworkError } from "../../src/errors";
+import type { CircuitState, EndpointMeta } from "../../src/types";
+
+const endpoint = (group: string): EndpointMeta => ({
+  group,
+  name: "list",
+  method: "GET",
+  path: `/${group}`,
+});
+
+/**
+ * Fetcher whose responses are controlled by the test
+ */
+function setup(breakerConfig: Parameters<typeof createCircuitBreaker>[0] = {}) {
+  const circuitBreaker = createCircuitBreaker({
+    minimumRequests: 2,
+    cooldown: 1000,
+    ...breakerConfig,
+  });
+  const response = { status: 503 };
+  const transport = createMemoryTransport(() => ({
+    status: response.status,
+    body: {},
+  }));
+  const fetcher = createFetcher({
+    baseURL: "https://api.example.com",
+    transport,
+    circuitBreaker,
+  });
+  const call = (group = "users") =>
+    fetcher(`/${group}`, { method: "GET", endpoint: endpoint(group) });
+
+  return { circuitBreaker, transport, response, call };
+}
+
+describe("Circuit Breaker", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should open once the failure rate reaches the threshold", async () => {
+    const { circuitBreaker, transport, call } = setup();
+
+    await expect(call()).rejects.toBeInstanceOf(HttpError);
+    expect(circuitBreaker.getState("users")).toBe("closed");
+    await expect(call()).rejects.toBeInstanceOf(HttpError);
+    expect(circuitBreaker.getState("users")).toBe("open");
+
+    const error = await call().catch((error: unknown) => error);
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(error).toMatchObject({
+      circuit: "users",
+      method: "GET",
+      url: "https://api.example.com/users",
+      endpoint: { group: "users" },
+    });
+    expect((error as CircuitOpenError).retryAfter).toBeGreaterThan(0);
+    expect(transport.requests).toHaveLength(2);
+  });
+
+  it("should keep circuits of other groups closed", async () => {
+    const { circuitBreaker, response, call } = setup();
+
+    await call().catch(() => undefined);
+    await call().catch(() => undefined);
+    response.status = 200;
+
+    await expect(call("orders")).resolves.toEqual({});
+    expect(circuitBreaker.getState("orders")).toBe("closed");
+    expect(circuitBreaker.getOpenCircuits()).toEqual({ users: "open" });
+  });
+
+  it("should not open below the failure threshold", async () => {
+    const { circuitBreaker, response, call } = setup({
+      failureThreshold: 0.75,
+    });
+
+    await call().catch(() => undefined);
+    response.status = 200;
+    await call();
+    response.status = 500;
+    await call().catch(() => undefined);
+
+    expect(circuitBreaker.getState("users")).toBe("closed");
+  });
+
+  it("should close after a successful trial request", async () => {
+    vi.useFakeTimers();
+    const { circuitBreaker, response, call } = setup();
+    const states: [string, CircuitState][] = [];
+    circuitBreaker.subscribe((key, state) => states.push([key, state]));
+
+    await call().catch(() => undefined);
+    await call().catch(() => undefined);
+
+    vi.advanceTimersByTime(1000);
+    response.status = 200;
+
+    await expect(call()).resolves.toEqual({});
+    expect(circuitBreaker.getState("users")).toBe("closed");
+    expect(states).toEqual([
+      ["users", "open"],
+      ["users", "half-open"],
+      ["users", "closed"],
+    ]);
+  });
+
+  it("should reopen after a failed trial request", async () => {
+    vi.useFakeTimers();
+    const { circuitBreaker, transport, call } = setup();
+
+    await call().catch(() => undefined);
+    await call().catch(() => undefined);
+
+    vi.advanceTimersByTime(1000);
+    await expect(call()).rejects.toBeInstanceOf(HttpError);
+    expect(circuitBreaker.getState("users")).toBe("open");
+    await expect(call()).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(transport.requests).toHaveLength(3);
+  });
+
+  it("should reject requests beyond the trial limit while half-open", async () => {
+    vi.useFakeTimers();
+    const circuitBreaker = createCircuitBreaker({
+      minimumRequests: 1,
+      cooldown: 1000,
+    });
+    const request = { url: "/users", method: "GET", service: "users" };
+    let release: () => void = () => undefined;
+
+    await circuitBreaker
+      .execute(request, () => Promise.reject(new TypeError("Failed to fetch")))
+      .catch(() => undefined);
+    vi.advanceTimersByTime(1000);
+
+    const trial = circuitBreaker.execute(
+      request,
+      () =>
+        new Promise((resolve) => {
+          release = () => resolve(new Response("{}"));
+        })
+    );
+
+    await expect(
+      circuitBreaker.execute(request, () => Promise.resolve(new Response("{}")))
+    ).rejects.toBeInstanceOf(CircuitOpenError);
+
+    release();
+    await trial;
+    expect(circuitBreaker.getState("users")).toBe("closed");
+  });
+
+  it("should key circuits by service before group", async () => {
+    const circuitBreaker = createCircuitBreaker({ minimumRequests: 1 });
+    const fetcher = createFetcher({
+      transport: createMemoryTransport(() => {
+        throw new TypeError("Failed to fetch");
+      }),
+      services: {
+        billing: { baseURL: "https://billing.example.com", groups: ["invoices"] },
+      },
+      circuitBreaker,
+    });
+
+    await expect(
+      fetcher("/invoices", { method: "GET", endpoint: endpoint("invoices") })
+    ).rejects.toBeInstanceOf(NetworkError);
+
+    expect(circuitBreaker.getState("billing")).toBe("open");
+    expect(circuitBreaker.getState("invoices")).toBe("closed");
+  });
+
+  it("should not count requests aborted by the caller", async () => {
+    const circuitBreaker = createCircuitBreaker({ minimumRequests: 1 });
+    const fetcher = createFetcher({
+      transport: createMemoryTransport(
+        (request) =>
+          new Promise((_resolve, reject) => {
+            request.signal?.addEventListener("abort", () =>
+              reject(new DOMException("Aborted", "AbortError"))
+            );
+          })
+      ),
+      circuitBreaker,
+    });
+    const controller = new AbortController();
+
+    const pending = fetcher("/users", {
+      method: "GET",
+      endpoint: endpoint("users"),
+      signal: controller.signal,
+    });
+    controller.abort();
+    await pending.catch(() => undefined);
+
+    expect(circuitBreaker.getState("users")).toBe("closed");
+    expect(circuitBreaker.getOpenCircuits()).toEqual({});
+  });
+
+  it("should close circuits on reset", async () => {
+    const { circuitBreaker, call } = setup();
+
+    await call().catch(() => undefined);
+    await call().catch(() => undefined);
+    circuitBreaker.reset();
+
+    expect(circuitBreaker.getState("users")).toBe("closed");
+    expect(circuitBreaker.getOpenCircuits()).toEqual({});
+  });
+
+  it("should reject invalid configuration", () => {
+    expect(() => createCircuitBreaker({ failureThreshold: 2 })).toThrow(
+      '"failureThreshold" must be between 0 and 1'
+    );
+    expect(() => createCircuitBreaker({ windowSize: 0 })).toThrow(
+      '"windowSize" must be a positive integer'
+    );
+  });
+});
@@ -0,0 +1,208 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { hashKey } from "@tanstack/query-core";
+import { createFetcher } from "../../src/fetch/createFetcher";
+import { createMemoryTransport } from "../../src/fetch/transports";
+import { createKeyFactory } from "../../src/keys/createKeyFactory";
+import {
+  bigIntCodec,
+  createBigIntCodec,
+  isoDateCodec,
+  jsonCodec,
+  superjsonCodec,
+} from "../../src/fetch/codecs";
+
+describe("Codecs", () => {
+  describe("jsonCodec", () => {
+    it("should round-trip plain JSON", () => {
+      const value = { a: [1, "b", null] };
+      expect(jsonCodec.deserialize(jsonCodec.serialize(value))).toEqual(value);
+    });
+  });
+
+  describe("isoDateCodec", () => {
+    it("should revive ISO date-time strings", () => {
+      const value = isoDateCodec.deserialize(
+        '{"at":"2024-01-02T03:04:05.000Z","day":"2024-01-02","name":"x"}'
+      ) as Record<string, unknown>;
+
+      expect(value.at).toEqual(new Date("2024-01-02T03:04:05.000Z"));
+      expect(value.day).toBe("2024-01-02");
+      expect(value.name).toBe("x");
+    });
+  });
+
+  describe("bigIntCodec", () => {
+    it("should send BigInt values as decimal strings", () => {
+      expect(bigIntCodec.serialize({ amount: 10n ** 20n })).toBe(
+        '{"amount":"100000000000000000000"}'
+      );
+    });
+
+    it("should leave response strings untouched", () => {
+      expect(bigIntCodec.deserialize('{"amount":"42","code":"5n"}')).toEqual({
+        amount: "42",
+        code: "5n",
+      });
+    });
+
+    it("should revive the listed properties only", () => {
+      const codec = createBigIntCodec({ keys: ["amount"] });
+      const value = { amount: -(10n ** 20n), id: "42", items: [{ amount: 1n }] };
+
+      expect(codec.deserialize(codec.serialize(value))).toEqual(value);
+      expect(codec.deserialize('{"amount":"5n"}')).toEqual({ amount: "5n" });
+    });
+
+    it("should let the response schema revive BigInt values", async () => {
+      const fetcher = createFetcher({
+        codec: bigIntCodec,
+        transport: createMemoryTransport(() => ({
+          body: '{"amount":"100000000000000000000"}',
+        })),
+      });
+
+      await expect(
+        fetcher("/balance", {
+          method: "GET",
+          schema: z.object({ amount: z.coerce.bigint() }),
+        })
+      ).resolves.toEqual({ amount: 10n ** 20n });
+    });
+  });
+
+  describe("superjsonCodec", () => {
+    it("should produce the superjson wire format", () => {
+      expect(
+        JSON.parse(
+          superjsonCodec.serialize({
+            at: new Date(0),
+            items: new Map([["a", 1n]]),
+            nested: { "dotted.key": new Set([1]) },
+            plain: 1,
+          })
+        )
+      ).toEqual({
+        json: {
+          at: "1970-01-01T00:00:00.000Z",
+          items: [["a", "1"]],
+          nested: { "dotted.key": [1] },
+          plain: 1,
+        },
+        meta: {
+          values: {
+            at: ["Date"],
+            items: ["map", { "0.1": ["bigint"] }],
+            "nested.dotted\\.key": ["set"],
+          },
+        },
+      });
+    });
+
+    it("should round-trip tagged values", () => {
+      const value = {
+        at: new Date(0),
+        items: new Map<string, unknown>([
+          ["a", 1n],
+          ["b", new Set([new Date(1)])],
+        ]),
+        list: [undefined, NaN, -Infinity],
+        pattern: /a.b/gi,
+        plain: { n: 1, s: "x" },
+      };
+
+      expect(superjsonCodec.deserialize(superjsonCodec.serialize(value))).toEqual(
+        value
+      );
+    });
+
+    it("should revive a tagged root value", () => {
+      expect(
+        superjsonCodec.deserialize(superjsonCodec.serialize(new Date(0)))
+      ).toEqual(new Date(0));
+    });
+
+    it("should keep bodies that are not in the superjson format", () => {
+      expect(superjsonCodec.deserialize('{"message":"Bad gateway"}')).toEqual({
+        message: "Bad gateway",
+      });
+    });
+  });
+
+  describe("createFetcher", () => {
+    it("should serialize bodies and deserialize responses with the codec", async () => {
+      const transport = createMemoryTransport((request) => ({
+        headers: { "content-type": "application/json" },
+        body: request.body as string,
+      }));
+      const fetcher = createFetcher({ transport, codec: superjsonCodec });
+      const body = { id: 1n, createdAt: new Date(0) };
+
+      await expect(
+        fetcher("/echo", { method: "POST", body })
+      ).resolves.toEqual(body);
+    });
+
+    it("should deserialize error bodies with the codec", async () => {
+      const fetcher = createFetcher({
+        transport: createMemoryTransport(() => ({
+          status: 409,
+          body: { conflictAt: "2024-01-02T03:04:05.000Z" },
+        })),
+        codec: isoDateCodec,
+      });
+
+      await expect(fetcher("/users", { method: "GET" })).rejects.toMatchObject({
+        status: 409,
+        data: { conflictAt: new Date("2024-01-02T03:04:05.000Z") },
+      });
+    });
+  });
+
+  describe("query keys", () => {
+    const keys = createKeyFactory({
+      ledger: {
+        get: { method: "GET" as const, path: "/ledger/:id" },
+      },
+    });
+
+    it("should build hashable keys from BigInt, Map and Set values", () => {
+      const key = keys.ledger.get.key({ id: 1n } as any, {
+        tags: new Set(["b", "a"]),
+        owners: new Map([
+          [2, "y"],
+          [1, "x"],
+        ]),
+      });
+
+      expect(() => hashKey(key)).not.toThrow();
+      expect(key).toEqual([
+        "ledger",
+        "get",
+        { id: { $bigint: "1" } },
+        {
+          owners: {
+            $map: [
+              [1, "x"],
+              [2, "y"],
+            ],
+          },
+          tags: { $set: ["a", "b"] },
+        },
+      ]);
+    });
+
+    it("should not depend on insertion order", () => {
+      expect(
+        hashKey(keys.ledger.get.key({ id: 1 }, { tags: new Set(["a", "b"]) }))
+      ).toBe(
+        hashKey(keys.ledger.get.key({ id: 1 }, { tags: new Set(["b", "a"]) }))
+      );
+      expect(
+        hashKey(keys.ledger.get.key({ id: 1 }, { tags: new Set(["a"]) }))
+      ).not.toBe(
+        hashKey(keys.ledger.get.key({ id: 1 }, { tags: new Set(["b"]) }))
+      );
+    });
+  });
+});
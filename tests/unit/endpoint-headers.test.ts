@@ -0,0 +1,152 @@
+import { describe, it, expect, vi } from "vitest";
+import React from "react";
+import { z } from "zod";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { renderHook, waitFor } from "@testing-library/react";
+import { createFetcher } from "../../src/fetch/createFetcher";
+import { createMemoryTransport } from "../../src/fetch/transports";
+import { createQueryAPI } from "../../src/createQueryAPI";
+
+describe("Endpoint Headers", () => {
+  const createTransport = () => createMemoryTransport(() => ({ body: {} }));
+
+  it("should send static endpoint headers", async () => {
+    const transport = createTransport();
+    const fetcher = createFetcher({ transport });
+
+    await fetcher("/users", {
+      method: "GET",
+      endpointHeaders: { Accept: "application/vnd.acme.v2+json" },
+    });
+
+    expect(transport.requests[0].headers).toEqual({
+      Accept: "application/vnd.acme.v2+json",
+    });
+  });
+
+  it("should compute headers from the validated call variables", async () => {
+    const transport = createTransport();
+    const fetcher = createFetcher({ transport });
+    const endpointHeaders = vi.fn(({ params, query, body }) => ({
+      "X-Tenant": `tenant-${params.tenantId}`,
+      "X-Dry-Run": String(query.dryRun),
+      "X-Items": String(body.items.length),
+    }));
+
+    await fetcher("/tenants/:tenantId/orders", {
+      method: "POST",
+      params: { tenantId: "7" },
+      paramsSchema: z.object({ tenantId: z.coerce.number() }),
+      query: {},
+      querySchema: z.object({ dryRun: z.boolean().default(false) }),
+      body: { items: ["a"] },
+      endpointHeaders,
+    });
+
+    expect(endpointHeaders).toHaveBeenCalledWith({
+      params: { tenantId: 7 },
+      query: { dryRun: false },
+      body: { items: ["a"] },
+    });
+    expect(transport.requests[0].headers).toMatchObject({
+      "X-Tenant": "tenant-7",
+      "X-Dry-Run": "false",
+      "X-Items": "1",
+    });
+  });
+
+  it("should support async header functions", async () => {
+    const transport = createTransport();
+    const fetcher = createFetcher({ transport });
+
+    await fetcher("/users", {
+      method: "GET",
+      endpointHeaders: async () => ({ "X-Signature": "abc" }),
+    });
+
+    expect(transport.requests[0].headers["X-Signature"]).toBe("abc");
+  });
+
+  it("should merge global, service, endpoint and call headers in order", async () => {
+    const transport = createTransport();
+    const fetcher = createFetcher({
+      transport,
+      headers: { "X-Source": "global", "X-Global": "1", "x-trace": "global" },
+      services: {
+        billing: {
+          baseURL: "https://billing.example.com",
+          headers: { "X-Source": "service" },
+        },
+      },
+    });
+
+    await fetcher("/invoices", {
+      method: "PATCH",
+      body: {},
+      service: "billing",
+      endpointHeaders: {
+        "content-type": "application/merge-patch+json",
+        "X-Trace": undefined,
+      },
+      headers: { "X-Source": "call" },
+    });
+
+    expect(transport.requests[0].headers).toEqual({
+      "X-Source": "call",
+      "X-Global": "1",
+      "content-type": "application/merge-patch+json",
+    });
+  });
+
+  it("should send the headers passed to the hooks over the endpoint headers", async () => {
+    const transport = createTransport();
+    const api = createQueryAPI(
+      {
+        users: {
+          list: {
+            method: "GET" as const,
+            path: "/users",
+            headers: { "X-Version": "2", "X-Locale": "en" },
+          },
+          create: { method: "POST" as const, path: "/users" },
+        },
+      },
+      { transport }
+    );
+    const queryClient = new QueryClient();
+    const wrapper = ({ children }: { children: React.ReactNode }) =>
+      React.createElement(QueryClientProvider, { client: queryClient }, children);
+
+    const { result: query } = renderHook(
+      () => api.users.list.useQuery({ headers: { "X-Locale": "fr" } }),
+      { wrapper }
+    );
+    await waitFor(() => expect(query.current.isSuccess).toBe(true));
+
+    const { result: mutation } = renderHook(
+      () => api.users.create.useMutation({ headers: { "X-Request": "form" } }),
+      { wrapper }
+    );
+    await mutation.current.mutateAsync({ body: {} });
+
+    expect(transport.requests[0].headers).toEqual({
+      "X-Version": "2",
+      "X-Locale": "fr",
+    });
+    expect(transport.requests[1].headers).toMatchObject({ "X-Request": "form" });
+  });
+
+  it("should reject invalid endpoint headers", () => {
+    expect(() =>
+      createQueryAPI({
+        users: {
+          list: {
+            method: "GET" as const,
+            path: "/users",
+            headers: { "X-Version": 2 } as any,
+          },
+        },
+      })
+    ).toThrow('"headers" must be a record of strings or a function');
+  });
+});
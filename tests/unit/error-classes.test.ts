@@ -0,0 +1,119 @@
+import { describe, it, expect, vi } from "vitest";
+import { z } from "zod";
+import { createFetcher } from "../../src/fetch/createFetcher";
+import { createMemoryTransport } from "../../src/fetch/transports";
+import {
+  HttpError,
+  NetworkError,
+  RequestError,
+  SchemaValidationError,
+  isAPIError,
+  isValidationError,
+} from "../../src/errors";
+
+describe("Error Classes", () => {
+  const endpoint = {
+    group: "users",
+    name: "get",
+    method: "GET" as const,
+    path: "/users/:id",
+  };
+
+  it("should reject HTTP errors with an HttpError carrying request details", async () => {
+    const fetcher = createFetcher({
+      baseURL: "https://api.example.com",
+      transport: createMemoryTransport(() => ({
+        status: 404,
+        body: { message: "User not found" },
+      })),
+    });
+
+    const error: any = await fetcher("/users/:id", {
+      method: "GET",
+      params: { id: 1 },
+      endpoint,
+    }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error).toBeInstanceOf(RequestError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error).toMatchObject({
+      name: "HttpError",
+      status: 404,
+      statusText: "Not Found",
+      message: "HTTP 404: Not Found",
+      data: { message: "User not found" },
+      url: "https://api.example.com/users/1",
+      method: "GET",
+      endpoint,
+    });
+    expect(error.stack).toBeDefined();
+    expect(isAPIError(error)).toBe(true);
+  });
+
+  it("should reject transport failures with a NetworkError keeping the cause", async () => {
+    const cause = new TypeError("Failed to fetch");
+    const fetcher = createFetcher({
+      transport: vi.fn().mockRejectedValue(cause),
+    });
+
+    const error: any = await fetcher("/users", { method: "GET" }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error).toMatchObject({
+      status: 0,
+      statusText: "Network Error",
+      message: "Failed to fetch",
+      url: "/users",
+      method: "GET",
+    });
+    expect(error.cause).toBe(cause);
+    expect(isAPIError(error)).toBe(true);
+  });
+
+  it("should build a readable message from the Zod issues", async () => {
+    const fetcher = createFetcher({
+      transport: createMemoryTransport(() => ({
+        body: { id: "1", name: 42 },
+      })),
+    });
+
+    const error: any = await fetcher("/users/:id", {
+      method: "GET",
+      params: { id: 1 },
+      schema: z.object({ id: z.number(), name: z.string() }),
+    }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(SchemaValidationError);
+    expect(error.target).toBe("response");
+    expect(error.message).toBe(
+      "Response validation failed for GET /users/1: id: Expected number, received string; name: Expected string, received number"
+    );
+    expect(error.cause).toBe(error.errors);
+    expect(isValidationError(error)).toBe(true);
+    expect(isAPIError(error)).toBe(false);
+  });
+
+  it("should tag request body validation errors", async () => {
+    const fetcher = createFetcher();
+
+    const error: any = await fetcher("/users", {
+      method: "POST",
+      body: { email: "invalid" },
+      bodySchema: z.object({ email: z.string().email() }),
+    }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(SchemaValidationError);
+    expect(error.target).toBe("body");
+    expect(error.message).toBe(
+      "Request body validation failed for POST /users: email: Invalid email"
+    );
+  });
+
+  it("should not treat plain objects as API errors", () => {
+    expect(isAPIError({ status: 500, statusText: "", message: "" })).toBe(
+      false
+    );
+    expect(isValidationError({ type: "validation", errors: [] })).toBe(false);
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, it, expect, expectTypeOf } from "vitest";
+import { z } from "zod";
+import { createFetcher } from "../../src/fetch/createFetcher";
+import { createMemoryTransport } from "../../src/fetch/transports";
+import { createQueryAPI } from "../../src/createQueryAPI";
+import {
+  HttpError,
+  NetworkError,
+  SchemaValidationError,
+  isHttpError,
+} from "../../src/errors";
+import type { InferError } from "../../src/types";
+
+const NotFoundSchema = z.object({ message: z.string() });
+const UnprocessableSchema = z.object({
+  fields: z.record(z.string()),
+});
+const ProblemSchema = z.object({ title: z.string(), status: z.number() });
+
+const errors = {
+  404: NotFoundSchema,
+  422: UnprocessableSchema,
+  default: ProblemSchema,
+};
+
+describe("Error Schemas", () => {
+  describe("runtime validation", () => {
+    it("should parse the error body with the schema for its status", async () => {
+      const fetcher = createFetcher({
+        transport: createMemoryTransport(() => ({
+          status: 422,
+          body: { fields: { email: "Invalid" }, extra: true },
+        })),
+      });
+
+      const error: any = await fetcher("/users", {
+        method: "POST",
+        body: {},
+        errors,
+      }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(HttpError);
+      expect(error.status).toBe(422);
+      expect(error.data).toEqual({ fields: { email: "Invalid" } });
+    });
+
+    it("should fall back to the default schema", async () => {
+      const fetcher = createFetcher({
+        transport: createMemoryTransport(() => ({
+          status: 500,
+          body: { title: "Server error", status: 500 },
+        })),
+      });
+
+      const error: any = await fetcher("/users", { method: "GET", errors }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(HttpError);
+      expect(error.data).toEqual({ title: "Server error", status: 500 });
+    });
+
+    it("should keep the raw body when no schema matches", async () => {
+      const fetcher = createFetcher({
+        transport: createMemoryTransport(() => ({
+          status: 500,
+          body: "<html>Bad gateway</html>",
+          headers: { "content-type": "text/html" },
+        })),
+      });
+
+      const error: any = await fetcher("/users", {
+        method: "GET",
+        errors: { 404: NotFoundSchema },
+      }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(HttpError);
+      expect(error.data).toBe("<html>Bad gateway</html>");
+    });
+
+    it("should keep the status and raw body when the error body does not match", async () => {
+      const fetcher = createFetcher({
+        transport: createMemoryTransport(() => ({
+          status: 404,
+          body: { error: "missing" },
+        })),
+      });
+
+      const error: any = await fetcher("/users/:id", {
+        method: "GET",
+        params: { id: 1 },
+        errors,
+      }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(HttpError);
+      expect(error.status).toBe(404);
+      expect(error.data).toEqual({ error: "missing" });
+      expect(error.cause).toBeInstanceOf(SchemaValidationError);
+      expect(error.cause.target).toBe("error");
+      expect(error.cause.message).toBe(
+        "Error response validation failed for GET /users/1: message: Required"
+      );
+    });
+  });
+
+  describe("isHttpError", () => {
+    it("should check the error class and status", () => {
+      const error = new HttpError({ status: 404, statusText: "", data: {} });
+
+      expect(isHttpError(error)).toBe(true);
+      expect(isHttpError(error, 404)).toBe(true);
+      expect(isHttpError(error, 422)).toBe(false);
+      expect(isHttpError(new NetworkError())).toBe(false);
+    });
+  });
+
+  describe("type inference", () => {
+    type Endpoint = { method: "GET"; path: "/users/:id"; errors: typeof errors };
+
+    it("should build a union of HttpError types keyed on status", () => {
+      type Errors = InferError<Endpoint>;
+
+      expectTypeOf<Extract<Errors, { status: 404 }>["data"]>().toEqualTypeOf<{
+        message: string;
+      }>();
+      expectTypeOf<Extract<Errors, { status: 422 }>["data"]>().toEqualTypeOf<{
+        fields: Record<string, string>;
+      }>();
+      expectTypeOf<
+        Extract<Errors, HttpError<number, { title: string; status: number }>>
+      >().not.toBeNever();
+    });
+
+    it("should narrow to the declared body type with isHttpError", () => {
+      const error = {} as InferError<Endpoint>;
+
+      if (isHttpError(error, 422)) {
+        expectTypeOf(error.data).toEqualTypeOf<{
+          fields: Record<string, string>;
+        }>();
+      }
+    });
+
+    it("should narrow to the declared body type by comparing the status", () => {
+      const error = {} as InferError<Endpoint>;
+
+      if (error instanceof HttpError && error.status === 404) {
+        expectTypeOf(error.data).toEqualTypeOf<{ message: string }>();
+      }
+      if (isHttpError(error) && error.status !== 404 && error.status !== 422) {
+        expectTypeOf(error.data).toEqualTypeOf<{
+          title: string;
+          status: number;
+        }>();
+      }
+    });
+
+    it("should use unknown bodies for undeclared statuses without a default", () => {
+      const error = {} as InferError<{ errors: { 404: typeof NotFoundSchema } }>;
+
+      if (isHttpError(error, 500)) {
+        expectTypeOf(error.data).toBeUnknown();
+      }
+    });
+  });
+
+  describe("configuration validation", () => {
+    it("should reject invalid error schema keys", () => {
+      expect(() =>
+        createQueryAPI({
+          users: {
+            get: {
+              method: "GET" as const,
+              path: "/users/:id",
+              errors: { notFound: NotFoundSchema } as any,
+            },
+          },
+        })
+      ).toThrow('"errors" keys must be HTTP status codes or "default"');
+    });
+
+    it("should reject non-schema values", () => {
+      expect(() =>
+        createQueryAPI({
+          users: {
+            get: {
+              method: "GET" as const,
+              path: "/users/:id",
+              errors: { 404: "not a schema" } as any,
+            },
+          },
+        })
+      ).toThrow('"errors.404" must be a Zod schema object');
+    });
+  });
+});
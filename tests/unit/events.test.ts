@@ -0,0 +1,239 @@
+import { describe, it, expect } from "vitest";
+import React from "react";
+import { z } from "zod";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { renderHook } from "@testing-library/react";
+import { createFetcher } from "../../src/fetch/createFetcher";
+import { createMemoryTransport } from "../../src/fetch/transports";
+import { createQueryAPI } from "../../src/createQueryAPI";
+import { NetworkError, SchemaValidationError } from "../../src/errors";
+import type { APIEvent, EndpointMeta } from "../../src/types";
+
+const endpoint: EndpointMeta = {
+  group: "users",
+  name: "get",
+  method: "GET",
+  path: "/users/:id",
+};
+
+describe("Lifecycle events", () => {
+  describe("createFetcher", () => {
+    it("should emit start and response events with timing and sizes", async () => {
+      const events: APIEvent[] = [];
+      const fetcher = createFetcher({
+        baseURL: "https://api.example.com",
+        transport: createMemoryTransport(() => ({
+          status: 201,
+          body: { id: 1 },
+          headers: { "content-length": "8" },
+        })),
+        onEvent: (event) => events.push(event),
+      });
+
+      await fetcher("/users/:id", {
+        method: "POST",
+        params: { id: 1 },
+        query: { notify: true },
+        body: { name: "Ada" },
+        endpoint: { ...endpoint, method: "POST" },
+      });
+
+      expect(events.map((event) => event.type)).toEqual([
+        "request:start",
+        "request:response",
+      ]);
+      expect(events[0]).toMatchObject({
+        url: "https://api.example.com/users/1?notify=true",
+        method: "POST",
+        endpoint: { group: "users", name: "get" },
+        params: { id: 1 },
+        query: { notify: true },
+        size: 14,
+      });
+      expect(events[1]).toMatchObject({ status: 201, size: 8 });
+      expect(events[1]).toHaveProperty("duration", expect.any(Number));
+    });
+
+    it("should emit retry events before each retry", async () => {
+      const events: APIEvent[] = [];
+      let attempts = 0;
+      const fetcher = createFetcher({
+        transport: createMemoryTransport(() =>
+          ++attempts < 3 ? { status: 503 } : { body: {} }
+        ),
+        retry: { attempts: 3, baseDelay: 0, jitter: false },
+        onEvent: (event) => events.push(event),
+      });
+
+      await fetcher("/users", { method: "GET" });
+
+      expect(events.filter((event) => event.type === "request:retry")).toEqual([
+        expect.objectContaining({ attempt: 1, delay: 0, status: 503 }),
+        expect.objectContaining({ attempt: 2, delay: 0, status: 503 }),
+      ]);
+      expect(events.at(-1)).toMatchObject({
+        type: "request:response",
+        status: 200,
+      });
+    });
+
+    it("should emit an error event when no response is received", async () => {
+      const events: APIEvent[] = [];
+      const fetcher = createFetcher({
+        transport: createMemoryTransport(() => {
+          throw new TypeError("Failed to fetch");
+        }),
+        onEvent: (event) => events.push(event),
+      });
+
+      await expect(fetcher("/users", { method: "GET" })).rejects.toThrow();
+
+      expect(events.at(-1)).toMatchObject({ type: "request:error" });
+      expect(
+        (events.at(-1) as Extract<APIEvent, { type: "request:error" }>).error
+      ).toBeInstanceOf(NetworkError);
+    });
+
+    it("should emit validation failures", async () => {
+      const events: APIEvent[] = [];
+      const fetcher = createFetcher({
+        transport: createMemoryTransport(() => ({ body: { id: "1" } })),
+        onEvent: (event) => events.push(event),
+      });
+
+      await expect(
+        fetcher("/users", {
+          method: "POST",
+          body: {},
+          bodySchema: z.object({ name: z.string() }),
+        })
+      ).rejects.toBeInstanceOf(SchemaValidationError);
+      await expect(
+        fetcher("/users/1", {
+          method: "GET",
+          schema: z.object({ id: z.number() }),
+        })
+      ).rejects.toBeInstanceOf(SchemaValidationError);
+
+      const failures = events.filter(
+        (event) => event.type === "validation:error"
+      );
+      expect(failures).toEqual([
+        expect.objectContaining({
+          target: "body",
+          method: "POST",
+          url: "/users",
+        }),
+        expect.objectContaining({ target: "response", url: "/users/1" }),
+      ]);
+      // The request with an invalid body is never sent
+      expect(
+        events.filter((event) => event.type === "request:start")
+      ).toHaveLength(1);
+    });
+
+    it("should not fail requests when the listener throws", async () => {
+      const fetcher = createFetcher({
+        transport: createMemoryTransport(() => ({ body: { ok: true } })),
+        onEvent: () => {
+          throw new Error("Logger failure");
+        },
+      });
+
+      await expect(fetcher("/users", { method: "GET" })).resolves.toEqual({
+        ok: true,
+      });
+    });
+  });
+
+  describe("createQueryAPI", () => {
+    const createAPI = (status = 200) => {
+      const events: APIEvent[] = [];
+      const api = createQueryAPI(
+        {
+          users: {
+            get: { method: "GET" as const, path: "/users/:id" },
+            update: { method: "PUT" as const, path: "/users/:id" },
+          },
+        },
+        {
+          transport: createMemoryTransport(() => ({ status, body: {} })),
+          onEvent: (event) => events.push(event),
+        }
+      );
+      const queryClient = new QueryClient();
+      const wrapper = ({ children }: { children: React.ReactNode }) =>
+        React.createElement(QueryClientProvider, { client: queryClient }, children);
+
+      return { api, events, wrapper };
+    };
+
+    it("should emit mutation settle and automatic invalidation events", async () => {
+      const { api, events, wrapper } = createAPI();
+      const { result } = renderHook(() => api.users.update.useMutation(), {
+        wrapper,
+      });
+
+      await result.current.mutateAsync({ params: { id: 1 }, body: {} });
+
+      expect(
+        events.filter(
+          (event) =>
+            event.type === "mutation:settle" || event.type === "cache:invalidate"
+        )
+      ).toEqual([
+        expect.objectContaining({
+          type: "mutation:settle",
+          status: "success",
+          endpoint: expect.objectContaining({ group: "users", name: "update" }),
+          params: { id: 1 },
+          duration: expect.any(Number),
+        }),
+        expect.objectContaining({
+          type: "cache:invalidate",
+          group: "users",
+          queryKey: ["users"],
+        }),
+      ]);
+    });
+
+    it("should emit failed mutations", async () => {
+      const { api, events, wrapper } = createAPI(500);
+      const { result } = renderHook(() => api.users.update.useMutation(), {
+        wrapper,
+      });
+
+      await expect(
+        result.current.mutateAsync({ params: { id: 1 }, body: {} })
+      ).rejects.toThrow();
+
+      expect(events.at(-1)).toMatchObject({
+        type: "mutation:settle",
+        status: "error",
+        error: expect.objectContaining({ status: 500 }),
+      });
+    });
+
+    it("should emit manual invalidations", async () => {
+      const { api, events } = createAPI();
+
+      await api.users.invalidate.get({ id: 1 });
+      await api.users.invalidate.all();
+
+      expect(events).toEqual([
+        expect.objectContaining({
+          type: "cache:invalidate",
+          group: "users",
+          endpoint: expect.objectContaining({ name: "get" }),
+          params: { id: 1 },
+          queryKey: api.users.get.key({ id: 1 }),
+        }),
+        expect.objectContaining({
+          type: "cache:invalidate",
+          group: "users",
+          queryKey: ["users"],
+        }),
+      ]);
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { createFetcher } from "../../src/fetch/createFetcher";
+import { AbortError, TimeoutError } from "../../src/errors";
 import { z } from "zod";
 
 describe("Fetch Wrapper", () => {
@@ -533,6 +534,35 @@ describe("Fetch Wrapper", () => {
       expect(mockFetch).not.toHaveBeenCalled();
     });
 
+    it("should send the parsed body with transforms, defaults and stripped keys", async () => {
+      const bodySchema = z.object({
+        name: z.string().trim(),
+        role: z.enum(["admin", "member"]).default("member"),
+        tags: z.string().transform((tags) => tags.split(",")),
+      });
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 201,
+        headers: new Headers({ "content-type": "application/json" }),
+        json: async () => ({ id: 1 }),
+      });
+
+      const fetcher = createFetcher();
+      await fetcher("/users", {
+        method: "POST",
+        body: { name: " John ", tags: "a,b", extra: true },
+        bodySchema,
+      });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        "/users",
+        expect.objectContaining({
+          body: JSON.stringify({ name: "John", role: "member", tags: ["a", "b"] }),
+        })
+      );
+    });
+
     it("should skip body validation when no bodySchema provided", async () => {
       mockFetch.mockResolvedValueOnce({
         ok: true,
@@ -575,4 +605,131 @@ describe("Fetch Wrapper", () => {
       );
     });
   });
+
+  describe("timeouts", () => {
+    const hangingFetch = (_url: string, init: RequestInit) =>
+      new Promise((_resolve, reject) => {
+        const abort = () => reject(new Error("The operation was aborted"));
+        if (init.signal?.aborted) {
+          abort();
+        }
+        init.signal?.addEventListener("abort", abort);
+      });
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should reject with a TimeoutError when the request takes too long", async () => {
+      mockFetch.mockImplementationOnce(hangingFetch);
+
+      const fetcher = createFetcher({ timeout: 1000 });
+      const promise = fetcher("/users", { method: "GET" });
+      const assertion = expect(promise).rejects.toSatisfy(
+        (error) =>
+          error instanceof TimeoutError &&
+          error.timeout === 1000 &&
+          error.message === "Request timed out after 1000ms" &&
+          error.url === "/users"
+      );
+
+      await vi.advanceTimersByTimeAsync(1000);
+      await assertion;
+    });
+
+    it("should let the request timeout override the global one", async () => {
+      mockFetch.mockImplementationOnce(hangingFetch);
+
+      const fetcher = createFetcher({ timeout: 10000 });
+      const promise = fetcher("/users", { method: "GET", timeout: 50 });
+      const assertion = expect(promise).rejects.toMatchObject({
+        type: "timeout",
+        timeout: 50,
+      });
+
+      await vi.advanceTimersByTimeAsync(50);
+      await assertion;
+    });
+
+    it("should keep the timeout running while the body is read", async () => {
+      let bodySignal: AbortSignal | undefined;
+      mockFetch.mockImplementationOnce(async (_url: string, init: RequestInit) => {
+        bodySignal = init.signal ?? undefined;
+        return {
+          ok: true,
+          status: 200,
+          headers: new Headers({ "content-type": "application/json" }),
+          json: () => hangingFetch(_url, init),
+        };
+      });
+
+      const fetcher = createFetcher({ timeout: 1000 });
+      const promise = fetcher("/users", { method: "GET" });
+      const assertion = expect(promise).rejects.toBeInstanceOf(TimeoutError);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      await assertion;
+      expect(bodySignal?.aborted).toBe(true);
+    });
+
+    it("should abort the combined signal when the caller aborts", async () => {
+      mockFetch.mockImplementationOnce(hangingFetch);
+
+      const fetcher = createFetcher({ timeout: 1000 });
+      const controller = new AbortController();
+      const promise = fetcher("/users", {
+        method: "GET",
+        signal: controller.signal,
+      });
+      const assertion = expect(promise).rejects.toBeInstanceOf(AbortError);
+
+      controller.abort();
+      await assertion;
+    });
+
+    it("should not fail requests that finish in time", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers({ "content-type": "application/json" }),
+        json: async () => ({ id: 1 }),
+      });
+
+      const fetcher = createFetcher({ timeout: 1000 });
+
+      await expect(fetcher("/users", { method: "GET" })).resolves.toEqual({
+        id: 1,
+      });
+    });
+
+    it("should stop the timer of responses whose body is not read", async () => {
+      const response = {
+        ok: true,
+        status: 204,
+        statusText: "No Content",
+        headers: new Headers(),
+      };
+      mockFetch.mockResolvedValueOnce(response);
+      const afterResponse = vi.fn((received) => received);
+      const controller = new AbortController();
+      const removeListener = vi.spyOn(controller.signal, "removeEventListener");
+
+      const fetcher = createFetcher({ timeout: 1000, afterResponse });
+      await fetcher("/users/1", {
+        method: "DELETE",
+        signal: controller.signal,
+      });
+
+      expect(afterResponse).toHaveBeenCalledWith(response);
+      expect(vi.getTimerCount()).toBe(0);
+      expect(removeListener).toHaveBeenCalledWith(
+        "abort",
+        expect.any(Function)
+      );
+    });
+  });
 });
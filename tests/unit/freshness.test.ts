@@ -0,0 +1,263 @@
+import { describe, it, expect } from "vitest";
+import React from "react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { renderHook, waitFor } from "@testing-library/react";
+import { createFetcher } from "../../src/fetch/createFetcher";
+import { createMemoryTransport } from "../../src/fetch/transports";
+import { getExpiresAt, resolveFreshness } from "../../src/fetch/freshness";
+import { createQueryAPI } from "../../src/createQueryAPI";
+import type { MemoryTransportHandler } from "../../src/fetch/transports";
+import type { FreshnessOption, ResponseMeta } from "../../src/types";
+
+describe("Freshness", () => {
+  const meta = (headers: Record<string, string>): ResponseMeta => ({
+    status: 200,
+    headers: new Headers(headers),
+    receivedAt: 1_000_000,
+  });
+
+  describe("getExpiresAt", () => {
+    const config = resolveFreshness(true)!;
+
+    it("should read Cache-Control max-age minus Age", () => {
+      expect(getExpiresAt(config, meta({ "cache-control": "public, max-age=60" }), {})).toBe(
+        1_060_000
+      );
+      expect(
+        getExpiresAt(config, meta({ "cache-control": "max-age=60", age: "20" }), {})
+      ).toBe(1_040_000);
+    });
+
+    it("should treat no-cache and no-store as stale", () => {
+      expect(getExpiresAt(config, meta({ "cache-control": "no-cache" }), {})).toBe(
+        1_000_000
+      );
+    });
+
+    it("should read Expires relative to the Date header", () => {
+      expect(
+        getExpiresAt(
+          config,
+          meta({
+            date: "Wed, 21 Oct 2015 07:28:00 GMT",
+            expires: "Wed, 21 Oct 2015 07:30:00 GMT",
+          }),
+          {}
+        )
+      ).toBe(1_120_000);
+      expect(getExpiresAt(config, meta({ expires: "0" }), {})).toBe(1_000_000);
+    });
+
+    it("should prefer a response field over the headers", () => {
+      const fromField = resolveFreshness({ field: "meta.expiresAt" })!;
+      const headers = meta({ "cache-control": "max-age=60" });
+
+      expect(
+        getExpiresAt(fromField, headers, {
+          meta: { expiresAt: "2030-01-01T00:00:00.000Z" },
+        })
+      ).toBe(Date.parse("2030-01-01T00:00:00.000Z"));
+      expect(getExpiresAt(fromField, headers, { meta: {} })).toBe(1_060_000);
+      expect(
+        getExpiresAt({ field: (data) => data.ttl * 1000 }, undefined, { ttl: 5 })
+      ).toBe(5000);
+    });
+
+    it("should return undefined without freshness information", () => {
+      expect(getExpiresAt(config, meta({}), {})).toBeUndefined();
+    });
+  });
+
+  describe("createFetcher", () => {
+    it("should hand the response metadata back", async () => {
+      const fetcher = createFetcher({
+        transport: createMemoryTransport(() => ({
+          body: {},
+          headers: { "cache-control": "max-age=30" },
+        })),
+      });
+      let received: ResponseMeta | undefined;
+
+      await fetcher("/config", {
+        method: "GET",
+        onResponseMeta: (responseMeta) => {
+          received = responseMeta;
+        },
+      });
+
+      expect(received?.status).toBe(200);
+      expect(received?.headers.get("cache-control")).toBe("max-age=30");
+      expect(received?.body).toEqual({});
+    });
+  });
+
+  describe("useQuery", () => {
+    const renderQuery = (
+      handler: MemoryTransportHandler,
+      options?: Record<string, unknown>
+    ) => {
+      const api = createQueryAPI(
+        {
+          config: {
+            get: { method: "GET" as const, path: "/config", freshness: true },
+          },
+        },
+        { transport: createMemoryTransport(handler) }
+      );
+      const queryClient = new QueryClient();
+      const wrapper = ({ children }: { children: React.ReactNode }) =>
+        React.createElement(QueryClientProvider, { client: queryClient }, children);
+
+      return {
+        queryClient,
+        ...renderHook(() => api.config.get.useQuery(options), { wrapper }),
+      };
+    };
+
+    it("should keep data fresh for the declared max-age", async () => {
+      const { result } = renderQuery(() => ({
+        body: {},
+        headers: { "cache-control": "max-age=3600" },
+      }));
+
+      await waitFor(() => expect(result.current.isSuccess).toBe(true));
+      expect(result.current.isStale).toBe(false);
+    });
+
+    it("should mark data stale when the server declares no-cache", async () => {
+      const { result } = renderQuery(() => ({
+        body: {},
+        headers: { "cache-control": "no-cache" },
+      }));
+
+      await waitFor(() => expect(result.current.isSuccess).toBe(true));
+      expect(result.current.isStale).toBe(true);
+    });
+
+    it("should fall back to the staleTime of the hook", async () => {
+      const { result } = renderQuery(() => ({ body: {} }), {
+        staleTime: 60_000,
+      });
+
+      await waitFor(() => expect(result.current.isSuccess).toBe(true));
+      expect(result.current.isStale).toBe(false);
+    });
+
+    it("should keep long-lived data cached until it expires", async () => {
+      const { result, queryClient, rerender } = renderQuery(() => ({
+        body: {},
+        headers: { "cache-control": "max-age=86400" },
+      }));
+
+      await waitFor(() => expect(result.current.isSuccess).toBe(true));
+      rerender();
+
+      const [query] = queryClient.getQueryCache().getAll();
+      expect(query.gcTime).toBeGreaterThan(86_000_000);
+    });
+  });
+
+  describe("useQuery lifecycle", () => {
+    const createAPI = (
+      handler: MemoryTransportHandler,
+      freshness: FreshnessOption = true
+    ) => {
+      const api = createQueryAPI(
+        {
+          config: {
+            get: {
+              method: "GET" as const,
+              path: "/config",
+              freshness,
+              transform: (data: any) => data.items,
+            },
+          },
+        },
+        { transport: createMemoryTransport(handler) }
+      );
+      const queryClient = new QueryClient();
+      const wrapper = ({ children }: { children: React.ReactNode }) =>
+        React.createElement(QueryClientProvider, { client: queryClient }, children);
+
+      return { api, queryClient, wrapper };
+    };
+
+    it("should read the expiry field before the transform", async () => {
+      const expiresAt = new Date(Date.now() + 3_600_000).toISOString();
+      const { api, wrapper } = createAPI(
+        () => ({ body: { meta: { expiresAt }, items: [] } }),
+        { headers: false, field: "meta.expiresAt" }
+      );
+      const { result } = renderHook(() => api.config.get.useQuery(), {
+        wrapper,
+      });
+
+      await waitFor(() => expect(result.current.isSuccess).toBe(true));
+      expect(result.current.data).toEqual([]);
+      expect(result.current.isStale).toBe(false);
+    });
+
+    it("should forget the expiry of removed queries", async () => {
+      const { api, queryClient, wrapper } = createAPI(() => ({
+        body: { items: [] },
+        headers: { "cache-control": "max-age=86400" },
+      }));
+      // TanStack Query versions before 5.80 pass no client to the query function
+      const withoutClient = (queryFn: any, context: any) =>
+        queryFn({ ...context, client: undefined });
+      const { result, unmount } = renderHook(
+        () => api.config.get.useQuery({ persister: withoutClient }),
+        { wrapper }
+      );
+      await waitFor(() => expect(result.current.isSuccess).toBe(true));
+      unmount();
+
+      queryClient.removeQueries();
+      renderHook(() => api.config.get.useQuery({ enabled: false }), {
+        wrapper,
+      });
+
+      const [query] = queryClient.getQueryCache().getAll();
+      expect(query.gcTime).toBe(5 * 60 * 1000);
+    });
+
+    it("should keep the expiry of each QueryClient apart", async () => {
+      let cacheControl = "max-age=3600";
+      const { api, wrapper } = createAPI(() => ({
+        body: { items: [] },
+        headers: { "cache-control": cacheControl },
+      }));
+      const otherClient = new QueryClient();
+      const otherWrapper = ({ children }: { children: React.ReactNode }) =>
+        React.createElement(
+          QueryClientProvider,
+          { client: otherClient },
+          children
+        );
+
+      const first = renderHook(() => api.config.get.useQuery(), { wrapper });
+      await waitFor(() => expect(first.result.current.isSuccess).toBe(true));
+      cacheControl = "no-cache";
+      const other = renderHook(() => api.config.get.useQuery(), {
+        wrapper: otherWrapper,
+      });
+      await waitFor(() => expect(other.result.current.isSuccess).toBe(true));
+
+      first.rerender();
+      expect(other.result.current.isStale).toBe(true);
+      expect(first.result.current.isStale).toBe(false);
+    });
+  });
+
+  describe("configuration validation", () => {
+    it("should reject freshness on mutations", () => {
+      expect(() =>
+        createQueryAPI({
+          config: {
+            update: { method: "PUT" as const, path: "/config", freshness: true },
+          },
+        })
+      ).toThrow('"freshness" is only allowed for GET endpoints');
+    });
+  });
+});
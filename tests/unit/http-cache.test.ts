@@ -0,0 +1,214 @@
+import { describe, it, expect, vi } from "vitest";
+import { createFetcher } from "../../src/fetch/createFetcher";
+import { createMemoryTransport } from "../../src/fetch/transports";
+import { createMemoryHttpCacheStore } from "../../src/fetch/httpCache";
+import type { HttpCacheEntry, HttpCacheStore } from "../../src/types";
+
+describe("HTTP Cache", () => {
+  /**
+   * Server answering 304 when the client already has the current version
+   */
+  const createServer = (headers: Record<string, string>) => {
+    let version = 1;
+    const transport = createMemoryTransport((request) => {
+      const etag = `"v${version}"`;
+      if (request.headers["If-None-Match"] === etag) {
+        return { status: 304, headers: { etag } };
+      }
+      return {
+        body: { version },
+        headers: { ...headers, etag },
+      };
+    });
+
+    return {
+      transport,
+      bump: () => {
+        version++;
+      },
+    };
+  };
+
+  it("should revalidate with If-None-Match and replay the body on 304", async () => {
+    const { transport } = createServer({});
+    const fetcher = createFetcher({ transport, httpCache: true });
+
+    await expect(fetcher("/config", { method: "GET" })).resolves.toEqual({
+      version: 1,
+    });
+    await expect(fetcher("/config", { method: "GET" })).resolves.toEqual({
+      version: 1,
+    });
+
+    expect(transport.requests[0].headers["If-None-Match"]).toBeUndefined();
+    expect(transport.requests[1].headers["If-None-Match"]).toBe('"v1"');
+  });
+
+  it("should store new versions", async () => {
+    const { transport, bump } = createServer({});
+    const fetcher = createFetcher({ transport, httpCache: true });
+
+    await fetcher("/config", { method: "GET" });
+    bump();
+
+    await expect(fetcher("/config", { method: "GET" })).resolves.toEqual({
+      version: 2,
+    });
+    await expect(fetcher("/config", { method: "GET" })).resolves.toEqual({
+      version: 2,
+    });
+    expect(transport.requests[2].headers["If-None-Match"]).toBe('"v2"');
+  });
+
+  it("should send If-Modified-Since for Last-Modified validators", async () => {
+    const lastModified = "Wed, 21 Oct 2015 07:28:00 GMT";
+    const transport = createMemoryTransport((request) =>
+      request.headers["If-Modified-Since"] === lastModified
+        ? { status: 304 }
+        : { body: ["a"], headers: { "last-modified": lastModified } }
+    );
+    const fetcher = createFetcher({ transport, httpCache: true });
+
+    await fetcher("/items", { method: "GET" });
+    await expect(fetcher("/items", { method: "GET" })).resolves.toEqual(["a"]);
+  });
+
+  it("should not store no-store responses or other methods", async () => {
+    const { transport } = createServer({ "cache-control": "private, no-store" });
+    const fetcher = createFetcher({ transport, httpCache: true });
+
+    await fetcher("/config", { method: "GET" });
+    await fetcher("/config", { method: "GET" });
+    await fetcher("/config", { method: "PUT", body: {} });
+    await fetcher("/config", { method: "PUT", body: {} });
+
+    expect(
+      transport.requests.map((request) => request.headers["If-None-Match"])
+    ).toEqual([undefined, undefined, undefined, undefined]);
+  });
+
+  it("should treat 304 responses without a stored body as errors", async () => {
+    const fetcher = createFetcher({
+      transport: createMemoryTransport(() => ({ status: 304 })),
+      httpCache: true,
+    });
+
+    await expect(
+      fetcher("/config", { method: "GET" })
+    ).rejects.toMatchObject({ status: 304 });
+  });
+
+  it("should resend conditional requests answered with 304 without an entry", async () => {
+    const { transport } = createServer({});
+    const fetcher = createFetcher({ transport, httpCache: true });
+
+    await expect(
+      fetcher("/config", {
+        method: "GET",
+        headers: { "If-None-Match": '"v1"' },
+      })
+    ).resolves.toEqual({ version: 1 });
+
+    expect(transport.requests[0].headers["If-None-Match"]).toBe('"v1"');
+    expect(transport.requests[1].headers).not.toHaveProperty("If-None-Match");
+  });
+
+  it("should match entries on the headers named in Vary", async () => {
+    const transport = createMemoryTransport((request) => {
+      const language = request.headers["Accept-Language"];
+      return request.headers["If-None-Match"] === `"${language}"`
+        ? { status: 304 }
+        : {
+            body: { language },
+            headers: { etag: `"${language}"`, vary: "Accept-Language" },
+          };
+    });
+    const fetcher = createFetcher({ transport, httpCache: true });
+    const get = (language: string) =>
+      fetcher("/greeting", {
+        method: "GET",
+        headers: { "Accept-Language": language },
+      });
+
+    await get("en");
+    await expect(get("fr")).resolves.toEqual({ language: "fr" });
+    await expect(get("fr")).resolves.toEqual({ language: "fr" });
+
+    expect(
+      transport.requests.map((request) => request.headers["If-None-Match"])
+    ).toEqual([undefined, undefined, '"fr"']);
+  });
+
+  it("should only cache authenticated requests when enabled, per token", async () => {
+    const { transport } = createServer({});
+    const get = (
+      fetcher: ReturnType<typeof createFetcher>,
+      token: string
+    ) =>
+      fetcher("/config", {
+        method: "GET",
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+    const shared = createFetcher({ transport, httpCache: true });
+    await get(shared, "alice");
+    await get(shared, "alice");
+
+    const authenticated = createFetcher({
+      transport,
+      httpCache: { authenticated: true },
+    });
+    await get(authenticated, "alice");
+    await get(authenticated, "alice");
+    await get(authenticated, "bob");
+
+    expect(
+      transport.requests.map((request) => request.headers["If-None-Match"])
+    ).toEqual([undefined, undefined, undefined, '"v1"', undefined]);
+  });
+
+  it("should use a custom store", async () => {
+    const entries = new Map<string, HttpCacheEntry>();
+    const store: HttpCacheStore = {
+      get: vi.fn(async (key: string) => entries.get(key)),
+      set: vi.fn(async (key: string, entry: HttpCacheEntry) => {
+        entries.set(key, entry);
+      }),
+    };
+    const { transport } = createServer({});
+    const fetcher = createFetcher({
+      baseURL: "https://api.example.com",
+      transport,
+      httpCache: { store },
+    });
+
+    await fetcher("/config", { method: "GET" });
+
+    expect(entries.get("https://api.example.com/config")).toMatchObject({
+      status: 200,
+      etag: '"v1"',
+      body: '{"version":1}',
+    });
+  });
+
+  describe("createMemoryHttpCacheStore", () => {
+    it("should evict the least recently used entries", () => {
+      const store = createMemoryHttpCacheStore({ maxEntries: 2 });
+      const entry = (body: string): HttpCacheEntry => ({
+        status: 200,
+        statusText: "OK",
+        headers: {},
+        body,
+      });
+
+      store.set("a", entry("a"));
+      store.set("b", entry("b"));
+      store.get("a");
+      store.set("c", entry("c"));
+
+      expect(store.get("a")).toBeDefined();
+      expect(store.get("b")).toBeUndefined();
+      expect(store.get("c")).toBeDefined();
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect } from "vitest";
+import React from "react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { renderHook, waitFor } from "@testing-library/react";
+import { createFetcher } from "../../src/fetch/createFetcher";
+import { createMemoryTransport } from "../../src/fetch/transports";
+import {
+  generateIdempotencyKey,
+  resolveIdempotency,
+} from "../../src/fetch/idempotency";
+import { createQueryAPI } from "../../src/createQueryAPI";
+
+describe("Idempotency Keys", () => {
+  describe("resolveIdempotency", () => {
+    it("should merge the global and endpoint options", () => {
+      expect(resolveIdempotency(undefined, undefined)).toBeUndefined();
+      expect(resolveIdempotency(true, false)).toBeUndefined();
+      expect(
+        resolveIdempotency({ header: "X-Key" }, { methods: ["PUT"] })
+      ).toMatchObject({ header: "X-Key", methods: ["PUT"] });
+      expect(resolveIdempotency(undefined, true)).toMatchObject({
+        header: "Idempotency-Key",
+        methods: ["POST", "PATCH"],
+      });
+    });
+
+    it("should generate unique UUIDs", () => {
+      const key = generateIdempotencyKey();
+
+      expect(key).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-/);
+      expect(generateIdempotencyKey()).not.toBe(key);
+    });
+  });
+
+  describe("createFetcher", () => {
+    it("should reuse the key across retry attempts", async () => {
+      let attempt = 0;
+      const transport = createMemoryTransport(() =>
+        ++attempt < 3 ? { status: 503 } : { status: 201, body: {} }
+      );
+      const fetcher = createFetcher({
+        transport,
+        idempotency: true,
+        retry: { attempts: 3, baseDelay: 0, retryNonIdempotent: true },
+      });
+
+      await fetcher("/orders", { method: "POST", body: {} });
+
+      const keys = transport.requests.map(
+        (request) => request.headers["Idempotency-Key"]
+      );
+      expect(keys).toHaveLength(3);
+      expect(new Set(keys).size).toBe(1);
+      expect(keys[0]).toBeTruthy();
+    });
+
+    it("should only send keys for unsafe methods", async () => {
+      const transport = createMemoryTransport(() => ({ body: {} }));
+      const fetcher = createFetcher({ transport, idempotency: true });
+
+      await fetcher("/orders", { method: "GET" });
+      await fetcher("/orders/1", { method: "PUT", body: {} });
+      await fetcher("/orders/1", { method: "PATCH", body: {} });
+
+      expect(transport.requests[0].headers["Idempotency-Key"]).toBeUndefined();
+      expect(transport.requests[1].headers["Idempotency-Key"]).toBeUndefined();
+      expect(transport.requests[2].headers["Idempotency-Key"]).toBeDefined();
+    });
+
+    it("should use the configured header, generator and key", async () => {
+      const transport = createMemoryTransport(() => ({ body: {} }));
+      const fetcher = createFetcher({
+        transport,
+        idempotency: { header: "X-Request-Id", generateKey: () => "generated" },
+      });
+
+      await fetcher("/orders", { method: "POST", body: {} });
+      await fetcher("/orders", {
+        method: "POST",
+        body: {},
+        idempotencyKey: "provided",
+      });
+      await fetcher("/orders", { method: "POST", body: {}, idempotency: false });
+
+      expect(transport.requests.map((r) => r.headers["X-Request-Id"])).toEqual([
+        "generated",
+        "provided",
+        undefined,
+      ]);
+    });
+  });
+
+  describe("useMutation", () => {
+    const createAPI = () => {
+      let attempt = 0;
+      let count = 0;
+      const transport = createMemoryTransport(() =>
+        ++attempt === 1 ? { status: 503 } : { status: 201, body: {} }
+      );
+      const api = createQueryAPI(
+        {
+          orders: {
+            create: { method: "POST" as const, path: "/orders" },
+            clear: { method: "POST" as const, path: "/orders/clear" },
+            cancel: {
+              method: "POST" as const,
+              path: "/orders/:id/cancel",
+              idempotency: false,
+            },
+          },
+        },
+        { transport, idempotency: { generateKey: () => `key-${++count}` } }
+      );
+      const queryClient = new QueryClient({
+        defaultOptions: { mutations: { retry: 1, retryDelay: 0 } },
+      });
+      const wrapper = ({ children }: { children: React.ReactNode }) =>
+        React.createElement(QueryClientProvider, { client: queryClient }, children);
+
+      return { api, transport, wrapper };
+    };
+
+    it("should reuse the key of a mutation call across TanStack retries", async () => {
+      const { api, transport, wrapper } = createAPI();
+      const { result } = renderHook(() => api.orders.create.useMutation(), {
+        wrapper,
+      });
+
+      const variables = { body: { sku: "a" } };
+      await result.current.mutateAsync(variables);
+      await result.current.mutateAsync(variables);
+
+      expect(
+        transport.requests.map((request) => request.headers["Idempotency-Key"])
+      ).toEqual(["key-1", "key-1", "key-2"]);
+      await waitFor(() => expect(result.current.variables).toBe(variables));
+      expect(variables).toEqual({ body: { sku: "a" } });
+    });
+
+    it("should send keys for mutations without variables", async () => {
+      const { api, transport, wrapper } = createAPI();
+      const { result } = renderHook(() => api.orders.clear.useMutation(), {
+        wrapper,
+      });
+
+      await result.current.mutateAsync();
+      await result.current.mutateAsync();
+
+      expect(
+        transport.requests.map((request) => request.headers["Idempotency-Key"])
+      ).toEqual(["key-1", "key-1", "key-2"]);
+      expect(result.current.variables).toBeUndefined();
+    });
+
+    it("should not send keys for endpoints opting out", async () => {
+      const { api, transport, wrapper } = createAPI();
+      const { result } = renderHook(() => api.orders.cancel.useMutation(), {
+        wrapper,
+      });
+
+      await result.current.mutateAsync({ params: { id: 1 } });
+
+      expect(
+        transport.requests.map((request) => request.headers["Idempotency-Key"])
+      ).toEqual([undefined, undefined]);
+    });
+  });
+});
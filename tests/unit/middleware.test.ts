@@ -0,0 +1,203 @@
+import { describe, it, expect, vi } from "vitest";
+import { createFetcher } from "../../src/fetch/createFetcher";
+import {
+  createMemoryTransport,
+  createTransportResponse,
+} from "../../src/fetch/transports";
+import type { Middleware } from "../../src/types";
+
+describe("Middleware", () => {
+  const endpoint = {
+    group: "users",
+    name: "get",
+    method: "GET" as const,
+    path: "/users/:id",
+  };
+
+  it("should run onRequest handlers in order and apply their changes", async () => {
+    const transport = createMemoryTransport(() => ({ body: {} }));
+    const calls: string[] = [];
+
+    const fetcher = createFetcher({
+      transport,
+      middleware: [
+        {
+          onRequest: ({ url }) => {
+            calls.push("first");
+            return { url: `https://api.example.com${url}` };
+          },
+        },
+        {
+          onRequest: ({ url, init }) => {
+            calls.push("second");
+            expect(url).toBe("https://api.example.com/users/1");
+            return {
+              init: { ...init, headers: { ...init.headers, "X-Trace": "1" } },
+            };
+          },
+        },
+      ],
+    });
+
+    await fetcher("/users/:id", { method: "GET", params: { id: 1 } });
+
+    expect(calls).toEqual(["first", "second"]);
+    expect(transport.requests[0]).toMatchObject({
+      url: "https://api.example.com/users/1",
+      headers: { "X-Trace": "1" },
+    });
+  });
+
+  it("should pass the endpoint metadata and fetch options", async () => {
+    const onRequest = vi.fn();
+    const fetcher = createFetcher({
+      transport: createMemoryTransport(() => ({ body: {} })),
+      middleware: [{ onRequest }],
+    });
+
+    await fetcher("/users/:id", {
+      method: "GET",
+      params: { id: 1 },
+      endpoint,
+    });
+
+    expect(onRequest).toHaveBeenCalledWith(
+      expect.objectContaining({
+        url: "/users/1",
+        endpoint,
+        options: expect.objectContaining({ params: { id: 1 } }),
+      })
+    );
+  });
+
+  it("should run onResponse handlers in reverse order", async () => {
+    const calls: string[] = [];
+    const record = (name: string): Middleware => ({
+      onResponse: () => {
+        calls.push(name);
+      },
+    });
+
+    const fetcher = createFetcher({
+      transport: createMemoryTransport(() => ({ body: {} })),
+      middleware: [record("outer"), record("inner")],
+    });
+
+    await fetcher("/users", { method: "GET" });
+
+    expect(calls).toEqual(["inner", "outer"]);
+  });
+
+  it("should let onResponse replace the response", async () => {
+    const fetcher = createFetcher({
+      transport: createMemoryTransport(() => ({ body: { data: [1, 2] } })),
+      middleware: [
+        {
+          onResponse: async (response) =>
+            createTransportResponse({
+              url: response.url,
+              status: response.status,
+              headers: { "content-type": "application/json" },
+              body: JSON.stringify(
+                ((await response.json()) as { data: number[] }).data
+              ),
+            }),
+        },
+      ],
+    });
+
+    await expect(fetcher("/numbers", { method: "GET" })).resolves.toEqual([
+      1, 2,
+    ]);
+  });
+
+  it("should recover from errors with onError", async () => {
+    const onError = vi.fn(() =>
+      createTransportResponse({
+        url: "/users",
+        status: 200,
+        headers: { "content-type": "application/json" },
+        body: "[]",
+      })
+    );
+    const fetcher = createFetcher({
+      transport: async () => {
+        throw new Error("Network failure");
+      },
+      middleware: [{ onError }],
+    });
+
+    await expect(
+      fetcher("/users", { method: "GET", endpoint })
+    ).resolves.toEqual([]);
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ message: "Network failure" }),
+      expect.objectContaining({ endpoint })
+    );
+  });
+
+  it("should rethrow errors no handler recovers from", async () => {
+    const fetcher = createFetcher({
+      transport: async () => {
+        throw new Error("Network failure");
+      },
+      middleware: [{ onError: () => undefined }],
+    });
+
+    await expect(fetcher("/users", { method: "GET" })).rejects.toMatchObject({
+      status: 0,
+      message: "Network failure",
+    });
+  });
+
+  it("should run beforeRequest and afterResponse as part of the chain", async () => {
+    const calls: string[] = [];
+    const fetcher = createFetcher({
+      transport: createMemoryTransport(() => ({ body: {} })),
+      beforeRequest: (init) => {
+        calls.push("beforeRequest");
+        return init;
+      },
+      afterResponse: (response) => {
+        calls.push("afterResponse");
+        return response;
+      },
+      middleware: [
+        {
+          onRequest: () => {
+            calls.push("onRequest");
+          },
+          onResponse: () => {
+            calls.push("onResponse");
+          },
+        },
+      ],
+    });
+
+    await fetcher("/users", { method: "GET" });
+
+    expect(calls).toEqual([
+      "beforeRequest",
+      "onRequest",
+      "onResponse",
+      "afterResponse",
+    ]);
+  });
+
+  it("should pass the response URL to afterResponse", async () => {
+    const urls: string[] = [];
+    const fetcher = createFetcher({
+      baseURL: "https://api.example.com",
+      transport: createMemoryTransport(() => ({ body: {} })),
+      timeout: 1000,
+      afterResponse: (response) => {
+        urls.push(response.url);
+        return response;
+      },
+    });
+
+    await fetcher("/users", { method: "GET" });
+
+    expect(urls).toEqual(["https://api.example.com/users"]);
+  });
+});
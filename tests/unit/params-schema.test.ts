@@ -0,0 +1,108 @@
+import { describe, it, expect, expectTypeOf } from "vitest";
+import { z } from "zod";
+import { createFetcher } from "../../src/fetch/createFetcher";
+import { createMemoryTransport } from "../../src/fetch/transports";
+import { createKeyFactory } from "../../src/keys/createKeyFactory";
+import { createQueryAPI } from "../../src/createQueryAPI";
+import { SchemaValidationError } from "../../src/errors";
+import type { InferParams } from "../../src/types";
+
+describe("Params Schema", () => {
+  const UserParamsSchema = z.object({ id: z.string().uuid() });
+  const PageParamsSchema = z.object({ page: z.coerce.number().int() });
+
+  describe("runtime validation", () => {
+    it("should reject invalid params before sending the request", async () => {
+      const transport = createMemoryTransport(() => ({ body: {} }));
+      const fetcher = createFetcher({ transport });
+
+      const error: any = await fetcher("/users/:id", {
+        method: "GET",
+        params: { id: "not-a-uuid" },
+        paramsSchema: UserParamsSchema,
+      }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(SchemaValidationError);
+      expect(error.target).toBe("params");
+      expect(error.message).toBe(
+        "Path parameters validation failed for GET /users/:id: id: Invalid uuid"
+      );
+      expect(transport.requests).toHaveLength(0);
+    });
+
+    it("should build the URL from the coerced params", async () => {
+      const transport = createMemoryTransport(() => ({ body: [] }));
+      const fetcher = createFetcher({ transport });
+
+      await fetcher("/pages/:page", {
+        method: "GET",
+        params: { page: "007" },
+        paramsSchema: PageParamsSchema,
+      });
+
+      expect(transport.requests[0].url).toBe("/pages/7");
+    });
+  });
+
+  describe("query keys", () => {
+    it("should share a key between params with the same parsed output", () => {
+      const keys = createKeyFactory({
+        pages: {
+          get: {
+            method: "GET" as const,
+            path: "/pages/:page",
+            paramsSchema: PageParamsSchema,
+          },
+        },
+      });
+      const raw: any = { page: "007" };
+
+      expect(keys.pages.get.key(raw)).toEqual(["pages", "get", { page: 7 }]);
+      expect(keys.pages.get.key(raw)).toEqual(keys.pages.get.key({ page: 7 }));
+      expect(keys.pages.get.key()).toEqual(["pages", "get"]);
+    });
+  });
+
+  describe("type inference", () => {
+    it("should use the schema type instead of string | number", () => {
+      expectTypeOf<
+        InferParams<{ path: "/users/:id"; paramsSchema: typeof UserParamsSchema }>
+      >().toEqualTypeOf<{ id: string }>();
+      expectTypeOf<InferParams<{ path: "/users/:id" }>>().toEqualTypeOf<
+        { id: string | number } & {}
+      >();
+    });
+
+    it("should type the key functions with the schema", () => {
+      const keys = createKeyFactory({
+        users: {
+          get: {
+            method: "GET" as const,
+            path: "/users/:id",
+            paramsSchema: UserParamsSchema,
+          },
+        },
+      });
+
+      expectTypeOf(keys.users.get.key)
+        .parameter(0)
+        .toEqualTypeOf<{ id: string } | undefined>();
+    });
+  });
+
+  describe("configuration validation", () => {
+    it("should reject non-schema values", () => {
+      expect(() =>
+        createQueryAPI({
+          users: {
+            get: {
+              method: "GET" as const,
+              path: "/users/:id",
+              paramsSchema: { id: "uuid" } as any,
+            },
+          },
+        })
+      ).toThrow('"paramsSchema" must be a Zod schema object');
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, expectTypeOf } from "vitest";
+import { createFetcher } from "../../src/fetch/createFetcher";
+import { createMemoryTransport } from "../../src/fetch/transports";
+import { extractPathParams, replacePath } from "../../src/fetch/path";
+import type { ExtractParams } from "../../src/types";
+
+describe("Path Templates", () => {
+  describe("replacePath", () => {
+    it("should encode parameter values", () => {
+      expect(replacePath("/users/:id", { id: "a/b c?" })).toBe(
+        "/users/a%2Fb%20c%3F"
+      );
+    });
+
+    it("should replace every occurrence of a parameter", () => {
+      expect(
+        replacePath("/orgs/:org/teams/:org-admins", { org: "acme" })
+      ).toBe("/orgs/acme/teams/acme-admins");
+    });
+
+    it("should drop omitted optional parameters with their segment", () => {
+      expect(replacePath("/files/:id?", {})).toBe("/files");
+      expect(replacePath("/files/:id?/meta", {})).toBe("/files/meta");
+      expect(replacePath("/files/:id?", { id: 3 })).toBe("/files/3");
+    });
+
+    it("should keep the slashes of wildcard values", () => {
+      expect(
+        replacePath("/files/*path", { path: "docs/read me.md" })
+      ).toBe("/files/docs/read%20me.md");
+    });
+
+    it("should support OpenAPI-style placeholders", () => {
+      expect(
+        replacePath("/users/{userId}/posts/{postId}", {
+          userId: 1,
+          postId: "x y",
+        })
+      ).toBe("/users/1/posts/x%20y");
+    });
+
+    it("should throw when a required parameter is missing", () => {
+      expect(() => replacePath("/files/*path")).toThrow(
+        "Missing required path parameter: path"
+      );
+    });
+
+    it("should reject dot segments", () => {
+      for (const id of [".", "..", "%2e%2E", ".%2e"]) {
+        expect(() => replacePath("/users/:id/posts", { id })).toThrow(
+          "Invalid path parameter: id"
+        );
+      }
+      expect(() =>
+        replacePath("/files/*path", { path: "docs/../../admin" })
+      ).toThrow("Invalid path parameter: path");
+      expect(replacePath("/files/*path", { path: "docs/..hidden" })).toBe(
+        "/files/docs/..hidden"
+      );
+    });
+  });
+
+  describe("extractPathParams", () => {
+    it("should list each parameter once with its kind", () => {
+      expect(extractPathParams("/a/:id/{slug}/:id/:page?/*rest")).toEqual([
+        { name: "id", optional: false, wildcard: false },
+        { name: "slug", optional: false, wildcard: false },
+        { name: "page", optional: true, wildcard: false },
+        { name: "rest", optional: false, wildcard: true },
+      ]);
+    });
+  });
+
+  describe("createFetcher", () => {
+    it("should send requests to the encoded path", async () => {
+      const transport = createMemoryTransport(() => ({ body: {} }));
+      const fetcher = createFetcher({
+        baseURL: "https://api.example.com",
+        transport,
+      });
+
+      await fetcher("/repos/{owner}/:repo/contents/*path", {
+        method: "GET",
+        params: { owner: "me", repo: "my repo", path: "src/index.ts" },
+      });
+
+      expect(transport.requests[0].url).toBe(
+        "https://api.example.com/repos/me/my%20repo/contents/src/index.ts"
+      );
+    });
+  });
+
+  describe("ExtractParams", () => {
+    it("should type optional, wildcard and OpenAPI-style parameters", () => {
+      expectTypeOf<ExtractParams<"/files/:id?">>().toEqualTypeOf<
+        {} & { id?: string | number }
+      >();
+      expectTypeOf<ExtractParams<"/files/*path">>().toMatchTypeOf<{
+        path: string;
+      }>();
+      expectTypeOf<
+        ExtractParams<"/users/{userId}/posts/{postId}">
+      >().toMatchTypeOf<{ userId: string | number; postId: string | number }>();
+      expectTypeOf<ExtractParams<"/users">>().toMatchTypeOf<
+        Record<string, never>
+      >();
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, expectTypeOf } from "vitest";
+import { z } from "zod";
+import { QueryClient } from "@tanstack/react-query";
+import { createFetcher } from "../../src/fetch/createFetcher";
+import { createMemoryTransport } from "../../src/fetch/transports";
+import { createKeyFactory } from "../../src/keys/createKeyFactory";
+import { createQueryAPI } from "../../src/createQueryAPI";
+import { SchemaValidationError } from "../../src/errors";
+import type { InferQuery } from "../../src/types";
+
+describe("Query Schema", () => {
+  const ListQuerySchema = z.object({
+    page: z.coerce.number().int().default(1),
+    search: z.string().optional(),
+  });
+
+  describe("runtime validation", () => {
+    it("should send the parsed query with defaults, coercions and stripped keys", async () => {
+      const transport = createMemoryTransport(() => ({ body: [] }));
+      const fetcher = createFetcher({ transport });
+
+      await fetcher("/users", {
+        method: "GET",
+        query: { search: "john", unknown: "dropped" },
+        querySchema: ListQuerySchema,
+      });
+      await fetcher("/users", {
+        method: "GET",
+        query: { page: "2" },
+        querySchema: ListQuerySchema,
+      });
+
+      expect(transport.requests.map((request) => request.url)).toEqual([
+        "/users?page=1&search=john",
+        "/users?page=2",
+      ]);
+    });
+
+    it("should reject invalid queries before sending the request", async () => {
+      const transport = createMemoryTransport(() => ({ body: [] }));
+      const fetcher = createFetcher({ transport });
+
+      const error: any = await fetcher("/users", {
+        method: "GET",
+        query: { page: "first" },
+        querySchema: ListQuerySchema,
+      }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(SchemaValidationError);
+      expect(error.target).toBe("query");
+      expect(error.message).toBe(
+        "Query parameters validation failed for GET /users: page: Expected number, received nan"
+      );
+      expect(transport.requests).toHaveLength(0);
+    });
+  });
+
+  describe("query keys", () => {
+    it("should share a key between queries with the same parsed output", () => {
+      const keys = createKeyFactory({
+        users: {
+          list: {
+            method: "GET" as const,
+            path: "/users",
+            querySchema: ListQuerySchema,
+          },
+        },
+      });
+
+      expect(keys.users.list.key(undefined, {})).toEqual([
+        "users",
+        "list",
+        { page: 1 },
+      ]);
+      expect(keys.users.list.key(undefined, {})).toEqual(
+        keys.users.list.key(undefined, { page: 1 })
+      );
+      expect(keys.users.list.key(undefined, { page: "1" })).toEqual(
+        keys.users.list.key(undefined, { page: 1 })
+      );
+    });
+
+    it("should keep prefix keys and invalidation without a query", async () => {
+      const queryClient = new QueryClient();
+      const api = createQueryAPI(
+        {
+          users: {
+            list: {
+              method: "GET" as const,
+              path: "/users",
+              querySchema: ListQuerySchema,
+            },
+          },
+        },
+        {},
+        queryClient
+      );
+      const pageKey = api.users.list.key({ page: 2 });
+      queryClient.setQueryData(pageKey, []);
+
+      expect(api.users.list.key()).toEqual(["users", "list"]);
+
+      await api.users.invalidate.list();
+
+      expect(queryClient.getQueryState(pageKey)?.isInvalidated).toBe(true);
+    });
+  });
+
+  describe("type inference", () => {
+    it("should accept the schema input with optional defaulted fields", () => {
+      expectTypeOf<
+        InferQuery<{ querySchema: typeof ListQuerySchema }>
+      >().toEqualTypeOf<{ page?: number | undefined; search?: string | undefined }>();
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect } from "vitest";
+import { createFetcher } from "../../src/fetch/createFetcher";
+import { createMemoryTransport } from "../../src/fetch/transports";
+import { createKeyFactory } from "../../src/keys/createKeyFactory";
+import { createQueryAPI } from "../../src/createQueryAPI";
+import {
+  buildQueryString,
+  normalizeQuery,
+  resolveQuerySerializer,
+} from "../../src/fetch/query";
+
+describe("Query Serializer", () => {
+  const decode = (queryString: string) => decodeURIComponent(queryString);
+
+  describe("buildQueryString", () => {
+    const query = { tags: ["a", "b"], page: 1 };
+
+    it("should repeat keys for arrays by default", () => {
+      expect(buildQueryString(query)).toBe("tags=a&tags=b&page=1");
+    });
+
+    it("should support the brackets, comma and indices formats", () => {
+      expect(decode(buildQueryString(query, { arrayFormat: "brackets" }))).toBe(
+        "tags[]=a&tags[]=b&page=1"
+      );
+      expect(decode(buildQueryString(query, { arrayFormat: "comma" }))).toBe(
+        "tags=a,b&page=1"
+      );
+      expect(decode(buildQueryString(query, { arrayFormat: "indices" }))).toBe(
+        "tags[0]=a&tags[1]=b&page=1"
+      );
+    });
+
+    it("should JSON-stringify nested objects by default", () => {
+      expect(decode(buildQueryString({ filter: { age: 18 } }))).toBe(
+        'filter={"age":18}'
+      );
+    });
+
+    it("should expand nested objects in the deepObject format", () => {
+      expect(
+        decode(
+          buildQueryString(
+            {
+              filter: { age: { gte: 18, lt: null }, roles: ["admin", "owner"] },
+            },
+            { objectFormat: "deepObject", arrayFormat: "brackets" }
+          )
+        )
+      ).toBe(
+        "filter[age][gte]=18&filter[roles][]=admin&filter[roles][]=owner"
+      );
+    });
+
+    it("should encode dates as ISO strings", () => {
+      const from = new Date("2024-01-02T03:04:05.000Z");
+
+      expect(
+        decode(
+          buildQueryString(
+            { from, range: [from], filter: { from } },
+            { dateFormat: "iso", objectFormat: "deepObject" }
+          )
+        )
+      ).toBe(
+        "from=2024-01-02T03:04:05.000Z&range=2024-01-02T03:04:05.000Z&filter[from]=2024-01-02T03:04:05.000Z"
+      );
+      expect(buildQueryString({ from })).toBe(
+        new URLSearchParams({ from: String(from) }).toString()
+      );
+    });
+  });
+
+  describe("resolveQuerySerializer", () => {
+    it("should merge the endpoint option over the global one", () => {
+      expect(resolveQuerySerializer("comma", { dateFormat: "iso" })).toEqual({
+        arrayFormat: "comma",
+        dateFormat: "iso",
+      });
+      expect(
+        resolveQuerySerializer({ arrayFormat: "comma" }, "brackets")
+      ).toEqual({ arrayFormat: "brackets" });
+    });
+  });
+
+  describe("normalizeQuery", () => {
+    it("should sort keys, drop empty values and encode dates", () => {
+      expect(
+        normalizeQuery(
+          { to: new Date(0), page: 1, q: null, tags: ["a", undefined] },
+          { dateFormat: "iso" }
+        )
+      ).toEqual({ page: 1, tags: ["a"], to: "1970-01-01T00:00:00.000Z" });
+    });
+  });
+
+  describe("createFetcher", () => {
+    it("should let the request serializer override the global one", async () => {
+      const transport = createMemoryTransport(() => ({ body: [] }));
+      const fetcher = createFetcher({
+        transport,
+        querySerializer: { arrayFormat: "brackets", objectFormat: "deepObject" },
+      });
+
+      await fetcher("/users", {
+        method: "GET",
+        query: { ids: [1, 2], filter: { role: "admin" } },
+      });
+      await fetcher("/users", {
+        method: "GET",
+        query: { ids: [1, 2] },
+        querySerializer: "comma",
+      });
+
+      expect(transport.requests.map((request) => decode(request.url))).toEqual(
+        ["/users?ids[]=1&ids[]=2&filter[role]=admin", "/users?ids=1,2"]
+      );
+    });
+  });
+
+  describe("query keys", () => {
+    it("should share a key between queries with the same query string", () => {
+      const config = {
+        events: {
+          list: {
+            method: "GET" as const,
+            path: "/events",
+            querySerializer: { objectFormat: "deepObject" as const },
+          },
+        },
+      };
+      const keys = createKeyFactory(config, {
+        querySerializer: { dateFormat: "iso" },
+      });
+
+      const from = new Date("2024-01-02T00:00:00.000Z");
+
+      expect(
+        keys.events.list.key(undefined, {
+          filter: { to: undefined, from },
+          page: null,
+        })
+      ).toEqual([
+        "events",
+        "list",
+        { filter: { from: "2024-01-02T00:00:00.000Z" } },
+      ]);
+      expect(
+        keys.events.list.key(undefined, {
+          filter: { from: "2024-01-02T00:00:00.000Z" },
+        })
+      ).toEqual(
+        keys.events.list.key(undefined, { filter: { from }, page: undefined })
+      );
+    });
+  });
+
+  describe("configuration validation", () => {
+    it("should reject unknown array formats", () => {
+      expect(() =>
+        createQueryAPI({
+          users: {
+            list: {
+              method: "GET" as const,
+              path: "/users",
+              querySerializer: "pipes" as any,
+            },
+          },
+        })
+      ).toThrow('"querySerializer" must be one of repeat, brackets, comma, indices');
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, expectTypeOf } from "vitest";
+import { z } from "zod";
+import { createFetcher } from "../../src/fetch/createFetcher";
+import { createMemoryTransport } from "../../src/fetch/transports";
+import { createQueryAPI } from "../../src/createQueryAPI";
+import { HttpError, SchemaValidationError } from "../../src/errors";
+import type { InferResponse } from "../../src/types";
+
+const UserSchema = z.object({ id: z.number(), name: z.string() });
+const JobSchema = z.object({ jobId: z.string() });
+
+const responses = {
+  200: UserSchema,
+  202: JobSchema,
+  204: null,
+};
+
+describe("Response Schemas", () => {
+  describe("runtime validation", () => {
+    it("should parse the body with the schema for its status", async () => {
+      const fetcher = createFetcher({
+        transport: createMemoryTransport(() => ({
+          status: 202,
+          body: { jobId: "abc", extra: true },
+        })),
+      });
+
+      await expect(
+        fetcher("/users", { method: "POST", body: {}, responses })
+      ).resolves.toEqual({ jobId: "abc" });
+    });
+
+    it("should resolve statuses declared as null without parsing the body", async () => {
+      const fetcher = createFetcher({
+        transport: createMemoryTransport(() => ({
+          status: 204,
+          headers: { "content-type": "application/json" },
+        })),
+      });
+
+      await expect(
+        fetcher("/users/:id", {
+          method: "DELETE",
+          params: { id: 1 },
+          schema: UserSchema,
+          responses,
+        })
+      ).resolves.toBeUndefined();
+    });
+
+    it("should fall back to schema for undeclared statuses", async () => {
+      const fetcher = createFetcher({
+        transport: createMemoryTransport(() => ({
+          status: 201,
+          body: { id: "1" },
+        })),
+      });
+
+      const error: any = await fetcher("/users", {
+        method: "POST",
+        body: {},
+        schema: UserSchema,
+        responses: { 204: null },
+      }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(SchemaValidationError);
+      expect(error.target).toBe("response");
+    });
+
+    it("should reject undeclared statuses without a schema", async () => {
+      const fetcher = createFetcher({
+        transport: createMemoryTransport(() => ({
+          status: 202,
+          body: { jobId: "abc" },
+        })),
+      });
+
+      const error: any = await fetcher("/users", {
+        method: "POST",
+        body: {},
+        responses: { 200: UserSchema, 204: null },
+      }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(HttpError);
+      expect(error).toMatchObject({ status: 202, data: { jobId: "abc" } });
+    });
+
+    it("should not parse empty 204 responses without a declared schema", async () => {
+      const fetcher = createFetcher({
+        transport: createMemoryTransport(() => ({
+          status: 204,
+          headers: { "content-type": "application/json" },
+        })),
+      });
+
+      await expect(
+        fetcher("/users/:id", { method: "DELETE", params: { id: 1 } })
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe("type inference", () => {
+    it("should build the union of the declared shapes", () => {
+      expectTypeOf<
+        InferResponse<{ responses: typeof responses }>
+      >().toEqualTypeOf<
+        { id: number; name: string } | { jobId: string } | undefined
+      >();
+    });
+
+    it("should be void for endpoints without content", () => {
+      expectTypeOf<
+        InferResponse<{ responses: { 204: null } }>
+      >().toEqualTypeOf<void>();
+    });
+  });
+
+  describe("configuration validation", () => {
+    it("should reject non-2xx status keys", () => {
+      expect(() =>
+        createQueryAPI({
+          users: {
+            get: {
+              method: "GET" as const,
+              path: "/users/:id",
+              responses: { 404: UserSchema },
+            },
+          },
+        })
+      ).toThrow('"responses" keys must be 2xx HTTP status codes (got "404")');
+    });
+
+    it("should reject values that are neither schemas nor null", () => {
+      expect(() =>
+        createQueryAPI({
+          users: {
+            remove: {
+              method: "DELETE" as const,
+              path: "/users/:id",
+              responses: { 204: "empty" } as any,
+            },
+          },
+        })
+      ).toThrow('"responses.204" must be a Zod schema object or null');
+    });
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, it, expect, expectTypeOf, vi } from "vitest";
+import { z } from "zod";
+import { QueryClient } from "@tanstack/react-query";
+import { createFetcher } from "../../src/fetch/createFetcher";
+import { createMemoryTransport } from "../../src/fetch/transports";
+import { createQueryAPI } from "../../src/createQueryAPI";
+import { createHooks } from "../../src/hooks/createHooks";
+import { createKeyFactory } from "../../src/keys/createKeyFactory";
+import { SchemaValidationError } from "../../src/errors";
+import type { InferResponse } from "../../src/types";
+
+describe("Response Transform", () => {
+  const UserSchema = z.object({ id: z.number(), name: z.string() });
+  const EnvelopeSchema = z.object({
+    data: z.array(UserSchema),
+    meta: z.object({ total: z.number() }),
+  });
+  type Envelope = z.infer<typeof EnvelopeSchema>;
+
+  const envelope = {
+    data: [{ id: 1, name: "John" }],
+    meta: { total: 1 },
+  };
+
+  describe("createFetcher", () => {
+    it("should apply the transform after schema validation", async () => {
+      const fetcher = createFetcher({
+        transport: createMemoryTransport(() => ({ body: envelope })),
+      });
+
+      await expect(
+        fetcher("/users", {
+          method: "GET",
+          schema: EnvelopeSchema,
+          transform: (response: Envelope) => response.meta.total,
+        })
+      ).resolves.toBe(1);
+    });
+
+    it("should not transform data that fails validation", async () => {
+      const transform = vi.fn();
+      const fetcher = createFetcher({
+        transport: createMemoryTransport(() => ({ body: { data: "invalid" } })),
+      });
+
+      await expect(
+        fetcher("/users", { method: "GET", schema: EnvelopeSchema, transform })
+      ).rejects.toBeInstanceOf(SchemaValidationError);
+      expect(transform).not.toHaveBeenCalled();
+    });
+
+    it("should unwrap every response before the endpoint transform", async () => {
+      const unwrap = vi.fn((response: unknown) => (response as Envelope).data);
+      const fetcher = createFetcher({
+        transport: createMemoryTransport(() => ({ body: envelope })),
+        unwrap,
+      });
+      const endpoint = {
+        group: "users",
+        name: "list",
+        method: "GET" as const,
+        path: "/users",
+      };
+
+      await expect(
+        fetcher("/users", { method: "GET", schema: EnvelopeSchema, endpoint })
+      ).resolves.toEqual([{ id: 1, name: "John" }]);
+      expect(unwrap).toHaveBeenCalledWith(envelope, endpoint);
+
+      await expect(
+        fetcher("/users", {
+          method: "GET",
+          transform: async (users: Envelope["data"]) =>
+            users.map((user) => user.name),
+        })
+      ).resolves.toEqual(["John"]);
+    });
+
+    it("should unwrap object responses by key", async () => {
+      const fetcher = createFetcher({
+        transport: createMemoryTransport(() => ({ body: envelope })),
+        unwrap: "data",
+      });
+
+      await expect(
+        fetcher("/users", { method: "GET", schema: EnvelopeSchema })
+      ).resolves.toEqual([{ id: 1, name: "John" }]);
+      await expect(
+        fetcher("/users", {
+          method: "GET",
+          schema: z.object({ meta: z.unknown() }),
+        })
+      ).resolves.toEqual({ meta: { total: 1 } });
+    });
+
+    it("should let endpoints opt out of the global unwrap", async () => {
+      const fetcher = createFetcher({
+        transport: createMemoryTransport(() => ({ body: envelope })),
+        unwrap: "data",
+      });
+
+      await expect(
+        fetcher("/users", { method: "GET", unwrap: false })
+      ).resolves.toEqual(envelope);
+    });
+
+    it("should keep errors thrown by the transform", async () => {
+      const fetcher = createFetcher({
+        transport: createMemoryTransport(() => ({ body: envelope })),
+      });
+
+      await expect(
+        fetcher("/users", {
+          method: "GET",
+          transform: () => {
+            throw new TypeError("Unexpected envelope");
+          },
+        })
+      ).rejects.toThrow(TypeError);
+    });
+  });
+
+  describe("type inference", () => {
+    it("should infer the awaited transform result", () => {
+      type Endpoint = {
+        method: "GET";
+        path: "/users";
+        schema: typeof EnvelopeSchema;
+        transform: (response: Envelope) => Promise<Envelope["data"]>;
+      };
+
+      expectTypeOf<InferResponse<Endpoint>>().toEqualTypeOf<
+        { id: number; name: string }[]
+      >();
+    });
+
+    it("should type the data with the global unwrap", () => {
+      const config = {
+        users: {
+          list: {
+            method: "GET" as const,
+            path: "/users",
+            schema: EnvelopeSchema,
+          },
+          raw: {
+            method: "GET" as const,
+            path: "/users/raw",
+            schema: EnvelopeSchema,
+            unwrap: false as const,
+          },
+        },
+      };
+      const fetchConfig = { unwrap: "data" as const };
+      const hooks = createHooks(
+        config,
+        createFetcher(fetchConfig),
+        createKeyFactory(config),
+        new QueryClient(),
+        fetchConfig
+      );
+
+      expectTypeOf<
+        ReturnType<typeof hooks.users.list.useQuery>["data"]
+      >().toEqualTypeOf<{ id: number; name: string }[] | undefined>();
+      expectTypeOf<
+        ReturnType<typeof hooks.users.raw.useQuery>["data"]
+      >().toEqualTypeOf<Envelope | undefined>();
+      expectTypeOf<
+        InferResponse<
+          { schema: typeof EnvelopeSchema },
+          (data: unknown) => Promise<number>
+        >
+      >().toEqualTypeOf<number>();
+    });
+  });
+
+  describe("configuration validation", () => {
+    it("should reject non-function transforms", () => {
+      expect(() =>
+        createQueryAPI({
+          users: {
+            list: {
+              method: "GET" as const,
+              path: "/users",
+              transform: "data" as any,
+            },
+          },
+        })
+      ).toThrow('"transform" must be a function');
+    });
+  });
+});
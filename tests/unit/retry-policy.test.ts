@@ -0,0 +1,205 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createFetcher } from "../../src/fetch/createFetcher";
+import { AbortError } from "../../src/errors";
+import {
+  getRetryDelay,
+  parseRetryAfter,
+  resolveRetryPolicy,
+} from "../../src/fetch/retry";
+
+describe("Retry Policy", () => {
+  const mockFetch = vi.fn();
+  const originalFetch = global.fetch;
+
+  const jsonResponse = (status: number, body: unknown, headers = {}) => ({
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: status === 200 ? "OK" : "Error",
+    headers: new Headers({ "content-type": "application/json", ...headers }),
+    json: async () => body,
+    text: async () => JSON.stringify(body),
+  });
+
+  beforeEach(() => {
+    global.fetch = mockFetch;
+    mockFetch.mockReset();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  describe("resolveRetryPolicy", () => {
+    it("should be disabled when no option is provided", () => {
+      expect(resolveRetryPolicy(undefined, undefined)).toBeUndefined();
+    });
+
+    it("should expand a number into the attempt count", () => {
+      expect(resolveRetryPolicy(4)).toMatchObject({
+        attempts: 4,
+        statuses: [408, 429, 502, 503, 504],
+      });
+    });
+
+    it("should let the endpoint option override the global one", () => {
+      expect(
+        resolveRetryPolicy({ attempts: 5, baseDelay: 100 }, { attempts: 2 })
+      ).toMatchObject({ attempts: 2, baseDelay: 100 });
+      expect(resolveRetryPolicy({ attempts: 5 }, false)).toBeUndefined();
+    });
+  });
+
+  describe("getRetryDelay", () => {
+    const policy = resolveRetryPolicy({ baseDelay: 100, jitter: false })!;
+
+    it("should back off exponentially", () => {
+      expect(getRetryDelay(1, policy)).toBe(100);
+      expect(getRetryDelay(2, policy)).toBe(200);
+      expect(getRetryDelay(3, policy)).toBe(400);
+    });
+
+    it("should cap the delay at maxDelay", () => {
+      expect(getRetryDelay(20, { ...policy, maxDelay: 1000 })).toBe(1000);
+    });
+
+    it("should keep jittered delays within half and full backoff", () => {
+      const delay = getRetryDelay(2, { ...policy, jitter: true });
+      expect(delay).toBeGreaterThanOrEqual(100);
+      expect(delay).toBeLessThanOrEqual(200);
+    });
+
+    it("should prefer the Retry-After header", () => {
+      expect(getRetryDelay(1, policy, "2")).toBe(2000);
+      expect(getRetryDelay(1, { ...policy, respectRetryAfter: false }, "2")).toBe(
+        100
+      );
+    });
+  });
+
+  describe("parseRetryAfter", () => {
+    it("should parse delay-seconds and HTTP-date values", () => {
+      expect(parseRetryAfter("3")).toBe(3000);
+      expect(parseRetryAfter("Wed, 21 Oct 2015 07:28:00 GMT")).toBe(0);
+      expect(parseRetryAfter("soon")).toBeUndefined();
+    });
+  });
+
+  describe("createFetcher with retry", () => {
+    it("should retry retryable statuses until success", async () => {
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse(503, {}))
+        .mockResolvedValueOnce(jsonResponse(502, {}))
+        .mockResolvedValueOnce(jsonResponse(200, { id: 1 }));
+
+      const fetcher = createFetcher({ retry: { attempts: 3, baseDelay: 0 } });
+      const result = await fetcher("/users", { method: "GET" });
+
+      expect(result).toEqual({ id: 1 });
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it("should cancel the body of discarded responses", async () => {
+      const discarded = new Response("{}", { status: 503 });
+      const cancel = vi.spyOn(discarded.body!, "cancel");
+      mockFetch
+        .mockResolvedValueOnce(discarded)
+        .mockResolvedValueOnce(jsonResponse(200, { id: 1 }));
+
+      const fetcher = createFetcher({ retry: { attempts: 2, baseDelay: 0 } });
+      await fetcher("/users", { method: "GET" });
+
+      expect(cancel).toHaveBeenCalled();
+    });
+
+    it("should retry network errors", async () => {
+      mockFetch
+        .mockRejectedValueOnce(new Error("Network failure"))
+        .mockResolvedValueOnce(jsonResponse(200, { id: 1 }));
+
+      const fetcher = createFetcher({ retry: { baseDelay: 0 } });
+      await expect(fetcher("/users", { method: "GET" })).resolves.toEqual({
+        id: 1,
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should return the last error once attempts are exhausted", async () => {
+      mockFetch.mockResolvedValue(jsonResponse(503, { error: "down" }));
+
+      const fetcher = createFetcher({ retry: { attempts: 2, baseDelay: 0 } });
+
+      await expect(fetcher("/users", { method: "GET" })).rejects.toMatchObject({
+        status: 503,
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not retry non-retryable statuses", async () => {
+      mockFetch.mockResolvedValue(jsonResponse(404, {}));
+
+      const fetcher = createFetcher({ retry: { baseDelay: 0 } });
+
+      await expect(fetcher("/users", { method: "GET" })).rejects.toMatchObject({
+        status: 404,
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should only retry POST requests when opted in", async () => {
+      mockFetch.mockResolvedValue(jsonResponse(503, {}));
+
+      const fetcher = createFetcher({ retry: { baseDelay: 0 } });
+      await expect(
+        fetcher("/users", { method: "POST", body: {} })
+      ).rejects.toMatchObject({ status: 503 });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      mockFetch.mockClear();
+      await expect(
+        fetcher("/users", {
+          method: "POST",
+          body: {},
+          retry: { baseDelay: 0, retryNonIdempotent: true },
+        })
+      ).rejects.toMatchObject({ status: 503 });
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it("should wait for the Retry-After delay", async () => {
+      vi.useFakeTimers();
+
+      try {
+        mockFetch
+          .mockResolvedValueOnce(jsonResponse(429, {}, { "retry-after": "1" }))
+          .mockResolvedValueOnce(jsonResponse(200, { id: 1 }));
+
+        const fetcher = createFetcher({ retry: { baseDelay: 0 } });
+        const promise = fetcher("/users", { method: "GET" });
+
+        await vi.advanceTimersByTimeAsync(999);
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+
+        await vi.advanceTimersByTimeAsync(1);
+        await expect(promise).resolves.toEqual({ id: 1 });
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("should not retry when the request is aborted", async () => {
+      const controller = new AbortController();
+      mockFetch.mockImplementationOnce(async () => {
+        controller.abort();
+        throw new Error("Aborted");
+      });
+
+      const fetcher = createFetcher({ retry: { baseDelay: 0 } });
+
+      await expect(
+        fetcher("/users", { method: "GET", signal: controller.signal })
+      ).rejects.toBeInstanceOf(AbortError);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,268 @@
+import { describe, it, expect } from "vitest";
+import React from "react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { renderHook, waitFor } from "@testing-library/react";
+import { createQueryAPI } from "../../src/createQueryAPI";
+import { createFetcher } from "../../src/fetch/createFetcher";
+import { createMemoryTransport } from "../../src/fetch/transports";
+import { createScheduler } from "../../src/fetch/scheduler";
+import { AbortError } from "../../src/errors";
+import type { Scheduler, ScheduledRequest } from "../../src/types";
+
+/**
+ * Transport holding every request until it is released
+ */
+function createGatedTransport() {
+  const pending: (() => void)[] = [];
+  const transport = createMemoryTransport(
+    () =>
+      new Promise((resolve) => pending.push(() => resolve({ body: {} })))
+  );
+
+  return {
+    transport,
+    pending,
+    releaseNext: async () => {
+      pending.shift()?.();
+      await flush();
+    },
+  };
+}
+
+/**
+ * Let pending promise callbacks run
+ */
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const request = (
+  overrides: Partial<ScheduledRequest> = {}
+): ScheduledRequest => ({
+  url: "https://api.example.com/users",
+  method: "GET",
+  priority: "normal",
+  ...overrides,
+});
+
+describe("Scheduler", () => {
+  describe("createScheduler", () => {
+    it("should limit concurrent requests and expose the queue depth", async () => {
+      const scheduler = createScheduler({ maxConcurrent: 2 });
+      const { transport, releaseNext } = createGatedTransport();
+      const fetcher = createFetcher({
+        baseURL: "https://api.example.com",
+        transport,
+        scheduler,
+      });
+
+      const requests = Array.from({ length: 5 }, (_, index) =>
+        fetcher(`/widgets/${index}`, { method: "GET" })
+      );
+      await flush();
+
+      expect(transport.requests).toHaveLength(2);
+      expect(scheduler.getActiveCount()).toBe(2);
+      expect(scheduler.getQueueDepth()).toBe(3);
+      expect(scheduler.getQueueDepth("api.example.com")).toBe(3);
+
+      await releaseNext();
+      expect(transport.requests).toHaveLength(3);
+      expect(scheduler.getQueueDepth()).toBe(2);
+
+      for (let index = 0; index < 4; index++) {
+        await releaseNext();
+      }
+      await Promise.all(requests);
+      expect(scheduler.getActiveCount()).toBe(0);
+      expect(scheduler.getQueueDepth()).toBe(0);
+    });
+
+    it("should start queued requests by priority lane", async () => {
+      const scheduler = createScheduler({ maxConcurrent: 1 });
+      const started: string[] = [];
+      let release!: () => void;
+      const blocker = scheduler.schedule(
+        request(),
+        () => new Promise<void>((resolve) => (release = resolve))
+      );
+
+      const tasks = (["low", "normal", "high", "low"] as const).map(
+        (priority, index) =>
+          scheduler.schedule(request({ priority }), async () => {
+            started.push(`${priority}-${index}`);
+          })
+      );
+
+      release();
+      await Promise.all([blocker, ...tasks]);
+
+      expect(started).toEqual(["high-2", "normal-1", "low-0", "low-3"]);
+    });
+
+    it("should limit each host separately by default", async () => {
+      const scheduler = createScheduler({ maxConcurrent: 1 });
+      const never = () => new Promise<void>(() => {});
+
+      scheduler.schedule(request({ url: "https://a.example.com/x" }), never);
+      scheduler.schedule(request({ url: "https://a.example.com/y" }), never);
+      scheduler.schedule(request({ url: "https://b.example.com/x" }), never);
+
+      expect(scheduler.getActiveCount("a.example.com")).toBe(1);
+      expect(scheduler.getQueueDepth("a.example.com")).toBe(1);
+      expect(scheduler.getActiveCount("b.example.com")).toBe(1);
+    });
+
+    it("should group requests by service or custom key", async () => {
+      const never = () => new Promise<void>(() => {});
+      const byService = createScheduler({ maxConcurrent: 1, keyBy: "service" });
+
+      byService.schedule(request({ url: "https://a.com", service: "billing" }), never);
+      byService.schedule(request({ url: "https://b.com", service: "billing" }), never);
+      expect(byService.getQueueDepth("billing")).toBe(1);
+
+      const byMethod = createScheduler({
+        maxConcurrent: 1,
+        keyBy: ({ method }) => method,
+      });
+      byMethod.schedule(request({ method: "GET" }), never);
+      byMethod.schedule(request({ method: "POST" }), never);
+      expect(byMethod.getActiveCount("GET")).toBe(1);
+      expect(byMethod.getActiveCount("POST")).toBe(1);
+    });
+
+    it("should reject invalid limits", () => {
+      expect(() => createScheduler({ maxConcurrent: 0 })).toThrow(
+        '"maxConcurrent" must be a positive integer'
+      );
+    });
+  });
+
+  describe("createFetcher", () => {
+    it("should send mutations before queued queries", async () => {
+      const scheduler = createScheduler({ maxConcurrent: 1 });
+      const { transport, releaseNext } = createGatedTransport();
+      const fetcher = createFetcher({ transport, scheduler });
+
+      const requests = [
+        fetcher("/first", { method: "GET" }),
+        fetcher("/refetch", { method: "GET", priority: "low" }),
+        fetcher("/list", { method: "GET" }),
+        fetcher("/orders", { method: "POST", body: {} }),
+      ];
+      await flush();
+
+      for (let index = 0; index < 4; index++) {
+        await releaseNext();
+      }
+      await Promise.all(requests);
+
+      expect(transport.requests.map(({ url }) => url)).toEqual([
+        "/first",
+        "/orders",
+        "/list",
+        "/refetch",
+      ]);
+    });
+
+    it("should remove aborted requests from the queue", async () => {
+      const scheduler = createScheduler({ maxConcurrent: 1 });
+      const { transport, releaseNext } = createGatedTransport();
+      const fetcher = createFetcher({ transport, scheduler });
+      const controller = new AbortController();
+
+      const first = fetcher("/first", { method: "GET" });
+      const queued = fetcher("/queued", {
+        method: "GET",
+        signal: controller.signal,
+      });
+      await flush();
+      expect(scheduler.getQueueDepth()).toBe(1);
+
+      controller.abort();
+      await expect(queued).rejects.toBeInstanceOf(AbortError);
+      expect(scheduler.getQueueDepth()).toBe(0);
+
+      await releaseNext();
+      await first;
+      expect(transport.requests).toHaveLength(1);
+    });
+  });
+
+  describe("hooks", () => {
+    it("should pass the priority of the hook options to the scheduler", async () => {
+      const scheduled: ScheduledRequest[] = [];
+      const scheduler: Scheduler = {
+        schedule: (request, task) => {
+          scheduled.push(request);
+          return task();
+        },
+        getQueueDepth: () => 0,
+        getActiveCount: () => 0,
+      };
+      const api = createQueryAPI(
+        {
+          users: {
+            list: { method: "GET" as const, path: "/users" },
+            create: { method: "POST" as const, path: "/users" },
+          },
+        },
+        {
+          transport: createMemoryTransport(() => ({ body: {} })),
+          scheduler,
+        }
+      );
+      const queryClient = new QueryClient();
+      const wrapper = ({ children }: { children: React.ReactNode }) =>
+        React.createElement(QueryClientProvider, { client: queryClient }, children);
+
+      const { result } = renderHook(
+        () => ({
+          query: api.users.list.useQuery({ priority: "high" }),
+          mutation: api.users.create.useMutation({ priority: "low" }),
+        }),
+        { wrapper }
+      );
+      await waitFor(() => expect(result.current.query.isSuccess).toBe(true));
+      await result.current.mutation.mutateAsync({ body: {} });
+
+      expect(scheduled[0]).toMatchObject({ method: "GET", priority: "high" });
+      expect(scheduled[1]).toMatchObject({ method: "POST", priority: "low" });
+    });
+
+    it("should send background refetches in the low lane without a client in the context", async () => {
+      const scheduled: ScheduledRequest[] = [];
+      const scheduler: Scheduler = {
+        schedule: (request, task) => {
+          scheduled.push(request);
+          return task();
+        },
+        getQueueDepth: () => 0,
+        getActiveCount: () => 0,
+      };
+      const api = createQueryAPI(
+        { users: { list: { method: "GET" as const, path: "/users" } } },
+        {
+          transport: createMemoryTransport(() => ({ body: {} })),
+          scheduler,
+        }
+      );
+      const queryClient = new QueryClient();
+      const wrapper = ({ children }: { children: React.ReactNode }) =>
+        React.createElement(QueryClientProvider, { client: queryClient }, children);
+      // TanStack Query versions before 5.80 pass no client to the query function
+      const withoutClient = (queryFn: any, context: any) =>
+        queryFn({ ...context, client: undefined });
+
+      const { result } = renderHook(
+        () => api.users.list.useQuery({ persister: withoutClient }),
+        { wrapper }
+      );
+      await waitFor(() => expect(result.current.isSuccess).toBe(true));
+      await result.current.refetch();
+
+      expect(scheduled.map(({ priority }) => priority)).toEqual([
+        "normal",
+        "low",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect } from "vitest";
+import { createFetcher } from "../../src/fetch/createFetcher";
+import { createMemoryTransport } from "../../src/fetch/transports";
+import { joinURL } from "../../src/fetch/path";
+import { createQueryAPI } from "../../src/createQueryAPI";
+import { RequestError } from "../../src/errors";
+import type { Middleware } from "../../src/types";
+
+describe("Services", () => {
+  describe("joinURL", () => {
+    it("should join base URLs with and without slashes", () => {
+      expect(joinURL("https://api.example.com", "/users")).toBe(
+        "https://api.example.com/users"
+      );
+      expect(joinURL("https://api.example.com/v1/", "/users")).toBe(
+        "https://api.example.com/v1/users"
+      );
+      expect(joinURL("https://api.example.com/v1", "users")).toBe(
+        "https://api.example.com/v1/users"
+      );
+    });
+
+    it("should keep query strings and encoded segments", () => {
+      expect(joinURL("https://api.example.com/v1", "/files/a%2Fb?x=1&y=2")).toBe(
+        "https://api.example.com/v1/files/a%2Fb?x=1&y=2"
+      );
+    });
+
+    it("should support relative and protocol-relative base URLs", () => {
+      expect(joinURL("/api", "/users")).toBe("/api/users");
+      expect(joinURL("/api/", "users?page=1")).toBe("/api/users?page=1");
+      expect(joinURL("api", "/users")).toBe("api/users");
+      expect(joinURL("//cdn.example.com/assets", "/logo.png")).toBe(
+        "//cdn.example.com/assets/logo.png"
+      );
+    });
+
+    it("should keep the path without a base URL or with an absolute path", () => {
+      expect(joinURL("", "/users")).toBe("/users");
+      expect(joinURL("https://api.example.com", "https://other.com/x")).toBe(
+        "https://other.com/x"
+      );
+    });
+  });
+
+  describe("createFetcher", () => {
+    const endpoint = (group: string) => ({
+      group,
+      name: "list",
+      method: "GET" as const,
+      path: "/items",
+    });
+
+    it("should send requests to the selected service", async () => {
+      const transport = createMemoryTransport(() => ({ body: [] }));
+      const fetcher = createFetcher({
+        baseURL: "https://api.example.com",
+        headers: { "X-App": "web", "X-Tenant": "global" },
+        transport,
+        services: {
+          billing: {
+            baseURL: "https://billing.example.com/v2/",
+            headers: { "X-Tenant": "acme" },
+          },
+        },
+      });
+
+      await fetcher("/invoices", { method: "GET", service: "billing" });
+      await fetcher("/users", { method: "GET" });
+
+      expect(transport.requests[0].url).toBe(
+        "https://billing.example.com/v2/invoices"
+      );
+      expect(transport.requests[0].headers).toMatchObject({
+        "X-App": "web",
+        "X-Tenant": "acme",
+      });
+      expect(transport.requests[1].url).toBe("https://api.example.com/users");
+      expect(transport.requests[1].headers["X-Tenant"]).toBe("global");
+    });
+
+    it("should send the groups of a service to it", async () => {
+      const transport = createMemoryTransport(() => ({ body: [] }));
+      const fetcher = createFetcher({
+        baseURL: "https://api.example.com",
+        transport,
+        services: {
+          search: { baseURL: "https://search.example.com", groups: ["products"] },
+          billing: { baseURL: "https://billing.example.com" },
+        },
+      });
+
+      await fetcher("/items", { method: "GET", endpoint: endpoint("products") });
+      await fetcher("/items", {
+        method: "GET",
+        endpoint: endpoint("products"),
+        service: "billing",
+      });
+      await fetcher("/items", { method: "GET", endpoint: endpoint("users") });
+
+      expect(transport.requests.map((request) => request.url)).toEqual([
+        "https://search.example.com/items",
+        "https://billing.example.com/items",
+        "https://api.example.com/items",
+      ]);
+    });
+
+    it("should let endpoints override the base URL", async () => {
+      const transport = createMemoryTransport(() => ({ body: [] }));
+      const fetcher = createFetcher({
+        transport,
+        services: {
+          billing: {
+            baseURL: "https://billing.example.com",
+            headers: { "X-Tenant": "acme" },
+          },
+        },
+      });
+
+      await fetcher("/invoices", {
+        method: "GET",
+        service: "billing",
+        baseURL: "https://billing-eu.example.com",
+      });
+
+      expect(transport.requests[0].url).toBe(
+        "https://billing-eu.example.com/invoices"
+      );
+      expect(transport.requests[0].headers["X-Tenant"]).toBe("acme");
+    });
+
+    it("should run service middleware after the global middleware", async () => {
+      const calls: string[] = [];
+      const track = (name: string): Middleware => ({
+        onRequest: () => {
+          calls.push(`${name}:request`);
+        },
+        onResponse: () => {
+          calls.push(`${name}:response`);
+        },
+      });
+      const fetcher = createFetcher({
+        transport: createMemoryTransport(() => ({ body: [] })),
+        middleware: [track("global")],
+        services: {
+          billing: {
+            baseURL: "https://billing.example.com",
+            middleware: [track("billing")],
+          },
+        },
+      });
+
+      await fetcher("/invoices", { method: "GET", service: "billing" });
+      await fetcher("/users", { method: "GET" });
+
+      expect(calls).toEqual([
+        "global:request",
+        "billing:request",
+        "billing:response",
+        "global:response",
+        "global:request",
+        "global:response",
+      ]);
+    });
+
+    it("should reject unknown services", async () => {
+      const fetcher = createFetcher({
+        transport: createMemoryTransport(() => ({ body: [] })),
+      });
+
+      const error = await fetcher("/invoices", {
+        method: "GET",
+        service: "billing",
+      }).catch((error: unknown) => error);
+
+      expect(error).toBeInstanceOf(RequestError);
+      expect(error).toMatchObject({
+        message: "Unknown service: billing",
+        method: "GET",
+        url: "/invoices",
+      });
+    });
+  });
+
+  describe("configuration validation", () => {
+    it("should reject endpoints using undeclared services", () => {
+      expect(() =>
+        createQueryAPI(
+          {
+            invoices: {
+              list: {
+                method: "GET" as const,
+                path: "/invoices",
+                service: "billing",
+              },
+            },
+          },
+          { services: { search: { baseURL: "https://search.example.com" } } }
+        )
+      ).toThrow('unknown service "billing" (declared services: search)');
+    });
+  });
+});
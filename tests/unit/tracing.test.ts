@@ -0,0 +1,205 @@
+import { describe, it, expect } from "vitest";
+import { createFetcher } from "../../src/fetch/createFetcher";
+import { createMemoryTransport } from "../../src/fetch/transports";
+import {
+  createMemoryTracer,
+  formatTraceparent,
+} from "../../src/fetch/tracing";
+import { HttpError, NetworkError } from "../../src/errors";
+import type { MemoryTransportHandler } from "../../src/fetch/transports";
+import type { TracingConfig } from "../../src/types";
+
+const TRACEPARENT = /^00-([0-9a-f]{32})-([0-9a-f]{16})-01$/;
+
+/**
+ * Fetcher recording its spans in memory
+ */
+function setup(
+  handler: MemoryTransportHandler = () => ({ body: {} }),
+  tracing: TracingConfig = {}
+) {
+  const tracer = createMemoryTracer();
+  const transport = createMemoryTransport(handler);
+  const fetcher = createFetcher({
+    baseURL: "https://api.example.com",
+    transport,
+    tracing: { tracer, propagate: ["https://api.example.com"], ...tracing },
+  });
+
+  return { tracer, transport, fetcher };
+}
+
+describe("Tracing", () => {
+  it("should record a span with the path template", async () => {
+    const { tracer, fetcher } = setup();
+
+    await fetcher("/users/:id", {
+      method: "GET",
+      params: { id: 42 },
+      endpoint: {
+        group: "users",
+        name: "get",
+        method: "GET",
+        path: "/users/:id",
+      },
+    });
+
+    const [span] = tracer.getFinishedSpans();
+    expect(span).toMatchObject({
+      name: "GET /users/:id",
+      kind: 2,
+      status: { code: 0 },
+      attributes: {
+        "http.request.method": "GET",
+        "url.template": "/users/:id",
+        "api.endpoint.group": "users",
+        "api.endpoint.name": "get",
+        "http.response.status_code": 200,
+      },
+    });
+    expect(span.duration).toBeGreaterThanOrEqual(0);
+    expect(JSON.stringify(span.attributes)).not.toContain("42");
+  });
+
+  it("should inject a traceparent header matching the span", async () => {
+    const { tracer, transport, fetcher } = setup();
+
+    await fetcher("/users", { method: "GET" });
+
+    const [span] = tracer.getFinishedSpans();
+    const match = TRACEPARENT.exec(transport.requests[0].headers.traceparent);
+    expect(match?.[1]).toBe(span.traceId);
+    expect(match?.[2]).toBe(span.spanId);
+  });
+
+  it("should share one span and header across retries", async () => {
+    let attempts = 0;
+    const tracer = createMemoryTracer();
+    const transport = createMemoryTransport(() =>
+      ++attempts < 2 ? { status: 503 } : { body: {} }
+    );
+    const fetcher = createFetcher({
+      transport,
+      retry: { attempts: 2, baseDelay: 0 },
+      tracing: { tracer },
+    });
+
+    await fetcher("/users", { method: "GET" });
+
+    expect(tracer.getFinishedSpans()).toHaveLength(1);
+    expect(transport.requests[0].headers.traceparent).toBe(
+      transport.requests[1].headers.traceparent
+    );
+  });
+
+  it("should mark failed requests as errors", async () => {
+    const { tracer, fetcher } = setup(() => ({ status: 500, body: {} }));
+
+    await expect(fetcher("/users", { method: "GET" })).rejects.toBeInstanceOf(
+      HttpError
+    );
+
+    const [span] = tracer.getFinishedSpans();
+    expect(span.status).toEqual({
+      code: 2,
+      message: "HTTP 500: Internal Server Error",
+    });
+    expect(span.attributes["http.response.status_code"]).toBe(500);
+    expect(span.exceptions[0]).toBeInstanceOf(HttpError);
+  });
+
+  it("should record network errors without a status", async () => {
+    const { tracer, fetcher } = setup(() => {
+      throw new TypeError("Failed to fetch");
+    });
+
+    await expect(fetcher("/users", { method: "GET" })).rejects.toThrow();
+
+    const [span] = tracer.getFinishedSpans();
+    expect(span.status.code).toBe(2);
+    expect(span.attributes).not.toHaveProperty("http.response.status_code");
+    expect(span.exceptions[0]).toBeInstanceOf(NetworkError);
+  });
+
+  it("should only propagate to the allowed URLs", async () => {
+    const { transport, fetcher } = setup(undefined, {
+      propagate: (url) => url.startsWith("https://api.example.com/internal"),
+    });
+
+    await fetcher("/internal/jobs", { method: "GET" });
+    await fetcher("https://partner.example.com/feed", { method: "GET" });
+
+    expect(transport.requests[0].headers).toHaveProperty("traceparent");
+    expect(transport.requests[1].headers).not.toHaveProperty("traceparent");
+  });
+
+  it("should only propagate to the page origin by default", async () => {
+    const tracer = createMemoryTracer();
+    const transport = createMemoryTransport(() => ({ body: {} }));
+    const fetcher = createFetcher({ transport, tracing: { tracer } });
+
+    await fetcher("/users", { method: "GET" });
+    await fetcher(`${location.origin}/users`, { method: "GET" });
+    await fetcher("https://partner.example.com/feed", { method: "GET" });
+
+    expect(
+      transport.requests.map((request) => "traceparent" in request.headers)
+    ).toEqual([true, true, false]);
+  });
+
+  it("should propagate to the listed origins", async () => {
+    const { transport, fetcher } = setup(undefined, {
+      propagate: ["https://partner.example.com/"],
+    });
+
+    await fetcher("/users", { method: "GET" });
+    await fetcher("https://partner.example.com/feed", { method: "GET" });
+
+    expect(transport.requests[0].headers).not.toHaveProperty("traceparent");
+    expect(transport.requests[1].headers).toHaveProperty("traceparent");
+  });
+
+  it("should keep a traceparent header set by the caller", async () => {
+    const { transport, fetcher } = setup();
+    const traceparent =
+      "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01";
+
+    await fetcher("/users", {
+      method: "GET",
+      headers: { Traceparent: traceparent },
+    });
+
+    expect(transport.requests[0].headers).toEqual(
+      expect.objectContaining({ Traceparent: traceparent })
+    );
+    expect(transport.requests[0].headers).not.toHaveProperty("traceparent");
+  });
+
+  it("should neither record nor propagate without a tracer", async () => {
+    const transport = createMemoryTransport(() => ({ body: {} }));
+    const fetcher = createFetcher({ transport });
+
+    await fetcher("/users", { method: "GET" });
+
+    expect(transport.requests[0].headers).not.toHaveProperty("traceparent");
+  });
+
+  describe("formatTraceparent", () => {
+    it("should format valid contexts and skip invalid ones", () => {
+      expect(
+        formatTraceparent({
+          traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+          spanId: "00f067aa0ba902b7",
+          traceFlags: 0,
+        })
+      ).toBe("00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-00");
+      expect(
+        formatTraceparent({
+          traceId: "0".repeat(32),
+          spanId: "00f067aa0ba902b7",
+          traceFlags: 1,
+        })
+      ).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,205 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createFetcher } from "../../src/fetch/createFetcher";
+import { AbortError } from "../../src/errors";
+import {
+  createMemoryTransport,
+  createXHRTransport,
+} from "../../src/fetch/transports";
+
+describe("Transports", () => {
+  describe("custom transport", () => {
+    it("should receive the normalized request", async () => {
+      const transport = vi.fn(async () => ({
+        url: "https://api.example.com/users/1",
+        ok: true,
+        status: 200,
+        statusText: "OK",
+        headers: new Headers({ "content-type": "application/json" }),
+        json: async () => ({ id: 1 }),
+        text: async () => JSON.stringify({ id: 1 }),
+      }));
+
+      const fetcher = createFetcher({
+        baseURL: "https://api.example.com",
+        headers: { "X-Client": "test" },
+        transport,
+      });
+      const result = await fetcher("/users/:id", {
+        method: "PUT",
+        params: { id: 1 },
+        body: { name: "John" },
+      });
+
+      expect(result).toEqual({ id: 1 });
+      expect(transport).toHaveBeenCalledWith(
+        expect.objectContaining({
+          url: "https://api.example.com/users/1",
+          method: "PUT",
+          headers: {
+            "X-Client": "test",
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ name: "John" }),
+        })
+      );
+    });
+
+    it("should normalize Headers instances set by interceptors", async () => {
+      const transport = createMemoryTransport(() => ({ body: {} }));
+
+      const fetcher = createFetcher({
+        transport,
+        beforeRequest: (init) => ({
+          ...init,
+          headers: new Headers({ Authorization: "Bearer token" }),
+        }),
+      });
+      await fetcher("/users", { method: "GET" });
+
+      const headers = new Headers(transport.requests[0].headers);
+      expect(headers.get("authorization")).toBe("Bearer token");
+    });
+  });
+
+  describe("createMemoryTransport", () => {
+    it("should serve JSON responses and record requests", async () => {
+      const transport = createMemoryTransport((request) =>
+        request.url === "/users/1"
+          ? { body: { id: 1, name: "John" } }
+          : { status: 404, body: { message: "Not found" } }
+      );
+      const fetcher = createFetcher({ transport });
+
+      await expect(
+        fetcher("/users/:id", { method: "GET", params: { id: 1 } })
+      ).resolves.toEqual({ id: 1, name: "John" });
+
+      await expect(
+        fetcher("/users/:id", { method: "GET", params: { id: 2 } })
+      ).rejects.toMatchObject({
+        status: 404,
+        statusText: "Not Found",
+        data: { message: "Not found" },
+      });
+
+      expect(transport.requests.map((request) => request.url)).toEqual([
+        "/users/1",
+        "/users/2",
+      ]);
+    });
+
+    it("should serve text responses", async () => {
+      const transport = createMemoryTransport(() => ({
+        headers: { "content-type": "text/plain" },
+        body: "pong",
+      }));
+      const fetcher = createFetcher({ transport });
+
+      await expect(fetcher("/ping", { method: "GET" })).resolves.toBe("pong");
+    });
+
+    it("should reject aborted requests", async () => {
+      const transport = createMemoryTransport(() => ({ body: {} }));
+      const fetcher = createFetcher({ transport });
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        fetcher("/users", { method: "GET", signal: controller.signal })
+      ).rejects.toBeInstanceOf(AbortError);
+      expect(transport.requests).toHaveLength(0);
+    });
+  });
+
+  describe("createXHRTransport", () => {
+    class FakeXMLHttpRequest {
+      static instances: FakeXMLHttpRequest[] = [];
+
+      method = "";
+      url = "";
+      requestHeaders: Record<string, string> = {};
+      sentBody: unknown;
+      status = 0;
+      statusText = "";
+      responseText = "";
+      upload: { onprogress?: (event: ProgressEvent) => void } = {};
+      onload?: () => void;
+      onerror?: () => void;
+      onabort?: () => void;
+      onprogress?: (event: ProgressEvent) => void;
+
+      constructor() {
+        FakeXMLHttpRequest.instances.push(this);
+      }
+
+      open(method: string, url: string) {
+        this.method = method;
+        this.url = url;
+      }
+
+      setRequestHeader(name: string, value: string) {
+        this.requestHeaders[name] = value;
+      }
+
+      getAllResponseHeaders() {
+        return "content-type: application/json\r\nx-request-id: 42\r\n";
+      }
+
+      send(body: unknown) {
+        this.sentBody = body;
+        this.upload.onprogress?.({ loaded: 1, total: 1 } as ProgressEvent);
+        this.status = 201;
+        this.statusText = "Created";
+        this.responseText = JSON.stringify({ id: 1 });
+        this.onload?.();
+      }
+
+      abort() {
+        this.onabort?.();
+      }
+    }
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      FakeXMLHttpRequest.instances = [];
+    });
+
+    it("should perform requests with XMLHttpRequest", async () => {
+      vi.stubGlobal("XMLHttpRequest", FakeXMLHttpRequest);
+      const onUploadProgress = vi.fn();
+
+      const fetcher = createFetcher({
+        baseURL: "https://api.example.com",
+        transport: createXHRTransport({ onUploadProgress }),
+      });
+      const result = await fetcher("/users", {
+        method: "POST",
+        body: { name: "John" },
+      });
+
+      const [xhr] = FakeXMLHttpRequest.instances;
+      expect(result).toEqual({ id: 1 });
+      expect(xhr.method).toBe("POST");
+      expect(xhr.url).toBe("https://api.example.com/users");
+      expect(xhr.requestHeaders["Content-Type"]).toBe("application/json");
+      expect(xhr.sentBody).toBe(JSON.stringify({ name: "John" }));
+      expect(onUploadProgress).toHaveBeenCalledTimes(1);
+    });
+
+    it("should map network failures to network errors", async () => {
+      class FailingXMLHttpRequest extends FakeXMLHttpRequest {
+        send() {
+          this.onerror?.();
+        }
+      }
+      vi.stubGlobal("XMLHttpRequest", FailingXMLHttpRequest);
+
+      const fetcher = createFetcher({ transport: createXHRTransport() });
+
+      await expect(fetcher("/users", { method: "GET" })).rejects.toMatchObject({
+        status: 0,
+        message: "Network request failed",
+      });
+    });
+  });
+});
@@ -1,4 +1,4 @@
-import { describe, it, expect, assertType } from "vitest";
+import { describe, it, expect, assertType, expectTypeOf } from "vitest";
 import type {
   ExtractParams,
   InferResponse,
@@ -89,6 +89,16 @@ describe("Type Inference Utilities", () => {
       const response: Result = { anything: "goes" };
       expect(response).toBeDefined();
     });
+
+    it("should infer the schema output after transforms", () => {
+      const schema = z.object({
+        createdAt: z.string().transform((value) => new Date(value)),
+      });
+
+      expectTypeOf<InferResponse<{ schema: typeof schema }>>().toEqualTypeOf<{
+        createdAt: Date;
+      }>();
+    });
   });
 
   describe("InferBody", () => {
@@ -273,6 +283,20 @@ describe("Type Inference Utilities", () => {
       expect(body.user.profile.age).toBe(30);
       expect(body.tags).toHaveLength(2);
     });
+
+    it("should infer the schema input before transforms and defaults", () => {
+      const bodySchema = z.object({
+        role: z.enum(["admin", "member"]).default("member"),
+        tags: z.string().transform((tags) => tags.split(",")),
+      });
+
+      expectTypeOf<
+        InferBody<{ method: "POST"; bodySchema: typeof bodySchema }>
+      >().toEqualTypeOf<{
+        role?: "admin" | "member" | undefined;
+        tags: string;
+      }>();
+    });
   });
 
   describe("InferQuery", () => {